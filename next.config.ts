@@ -1,6 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  serverExternalPackages: ["tesseract.js", "@napi-rs/canvas"],
   experimental: {
     serverActions: {
       bodySizeLimit: "10mb",
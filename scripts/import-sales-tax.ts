@@ -0,0 +1,34 @@
+/**
+ * Load zip code sales tax rates from a CSV (state, zip code, combined rate,
+ * and optionally state rate and region name). Each state in the file has its
+ * zip code rates replaced.
+ *
+ *   npm run db:import-sales-tax -- path/to/rates.csv [more.csv ...]
+ */
+
+import { readFile } from "fs/promises";
+import { prisma } from "@/lib/prisma";
+import { salesTaxEngine } from "@/lib/pricing/sales-tax";
+
+async function main() {
+  const files = process.argv.slice(2);
+  if (files.length === 0) {
+    throw new Error("Usage: npm run db:import-sales-tax -- <rates.csv> [...]");
+  }
+
+  for (const file of files) {
+    const result = await salesTaxEngine.importCsv(await readFile(file, "utf-8"));
+    console.log(
+      `${file}: ${result.zipCodes} zip codes, ${result.states} state rates (${result.skipped} rows skipped)`
+    );
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,59 @@
+/**
+ * Copy the legacy per-supplier columns on ProductCatalog (beaconPrice, srsSku,
+ * ...) into SupplierPrice list prices, with a history entry dated when each
+ * price was last updated. Safe to re-run; products that already have a list
+ * price for a supplier are skipped.
+ *
+ *   npm run db:migrate-supplier-prices
+ */
+
+import { prisma } from "@/lib/prisma";
+import { supplierPricing } from "@/lib/pricing/supplier-prices";
+
+const LEGACY_COLUMNS = [
+  { supplier: "beacon", price: "beaconPrice", sku: "beaconSku", updated: "beaconUpdated" },
+  { supplier: "srs", price: "srsPrice", sku: "srsSku", updated: "srsUpdated" },
+  { supplier: "abc", price: "abcPrice", sku: "abcSku", updated: "abcUpdated" },
+  { supplier: "gulf_eagle", price: "gulfEaglePrice", sku: "gulfEagleSku", updated: "gulfEagleUpdated" },
+] as const;
+
+async function main() {
+  const products = await prisma.productCatalog.findMany({
+    include: { supplierPrices: { where: { supplierConfigId: null } } },
+  });
+
+  let migrated = 0;
+  let skipped = 0;
+
+  for (const product of products) {
+    for (const column of LEGACY_COLUMNS) {
+      const price = product[column.price];
+      if (price === null) continue;
+
+      if (product.supplierPrices.some((row) => row.supplier === column.supplier)) {
+        skipped++;
+        continue;
+      }
+
+      await supplierPricing.setPrice({
+        productId: product.id,
+        supplier: column.supplier,
+        sku: product[column.sku],
+        price: Number(price),
+        effectiveDate: product[column.updated] || product.updatedAt,
+      });
+      migrated++;
+    }
+  }
+
+  console.log(`Migrated ${migrated} supplier prices (${skipped} already present)`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,36 @@
+/**
+ * Background worker entrypoint
+ *
+ * Runs the task queue worker until SIGINT/SIGTERM:
+ *   npm run worker
+ */
+
+import { TaskWorker } from "@/lib/queue/worker";
+import { prisma } from "@/lib/prisma";
+
+const worker = new TaskWorker({
+  batchSize: Number(process.env.WORKER_BATCH_SIZE) || 1,
+  pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS) || 5000,
+});
+
+async function main() {
+  console.log(`Task worker ${worker.workerId} started`);
+  await worker.start();
+  console.log(`Task worker ${worker.workerId} stopped`);
+}
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, finishing current batch...`);
+    worker.stop();
+  });
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
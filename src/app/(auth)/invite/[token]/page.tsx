@@ -0,0 +1,43 @@
+import Link from "next/link";
+import { Building2 } from "lucide-react";
+import { teamInvitations } from "@/lib/team/invitations";
+import { AcceptInviteForm } from "./accept-invite-form";
+
+export default async function InvitePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const invitation = await teamInvitations.find(token);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md">
+        <div className="mb-8 text-center">
+          <Link href="/" className="inline-flex items-center gap-2">
+            <Building2 className="h-10 w-10 text-blue-600" />
+            <span className="text-2xl font-bold">InsuranceXpert</span>
+          </Link>
+          <h1 className="mt-6 text-2xl font-bold text-gray-900">
+            {invitation ? `Join ${invitation.organizationName}` : "Invitation expired"}
+          </h1>
+          <p className="mt-2 text-gray-600">
+            {invitation
+              ? `${invitation.invitedBy?.name || invitation.invitedBy?.email || "Your team"} invited you to join as ${invitation.role === "admin" ? "an" : "a"} ${invitation.role}.`
+              : "This invitation has expired or was already used. Ask your team for a new one."}
+          </p>
+        </div>
+
+        {invitation && <AcceptInviteForm token={token} email={invitation.email} />}
+
+        <p className="mt-6 text-center text-sm text-gray-600">
+          Already have an account?{" "}
+          <Link href="/login" className="font-medium text-blue-600 hover:underline">
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
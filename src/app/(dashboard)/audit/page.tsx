@@ -0,0 +1,177 @@
+import { getAuditLog } from "@/app/actions/audit";
+import type { AuditChanges } from "@/lib/audit/log";
+import { Download } from "lucide-react";
+
+const ENTITY_TYPES = [
+  "job",
+  "document",
+  "estimate",
+  "supplement",
+  "purchase_order",
+  "claim_payment",
+  "line_item",
+  "discrepancy",
+  "insurance_analysis",
+  "aerial_report",
+  "price_import",
+  "supplier_price",
+  "supplier_configuration",
+  "product_alias",
+  "labor_rates",
+  "organization",
+  "user",
+  "invitation",
+];
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ entityType?: string; entityId?: string; action?: string; from?: string; to?: string }>;
+}) {
+  const params = await searchParams;
+  const filters = {
+    entityType: params.entityType || undefined,
+    entityId: params.entityId || undefined,
+    action: params.action || undefined,
+    from: params.from || undefined,
+    to: params.to || undefined,
+  };
+  const { entries, total } = await getAuditLog(filters);
+
+  const exportQuery = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  return (
+    <div>
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600">
+            {total} change{total !== 1 ? "s" : ""}
+            {total > entries.length ? ` • showing the latest ${entries.length}` : ""}
+          </p>
+        </div>
+        <a
+          href={`/api/audit/csv${exportQuery ? `?${exportQuery}` : ""}`}
+          className="flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium hover:bg-gray-50"
+        >
+          <Download size={18} />
+          Export CSV
+        </a>
+      </div>
+
+      {/* Filters */}
+      <form className="mb-6 flex flex-wrap gap-4">
+        <select
+          name="entityType"
+          defaultValue={params.entityType || ""}
+          className="rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          <option value="">All Records</option>
+          {ENTITY_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          name="entityId"
+          placeholder="Record ID"
+          defaultValue={params.entityId}
+          className="rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          name="action"
+          placeholder="Action"
+          defaultValue={params.action}
+          className="rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          name="from"
+          defaultValue={params.from}
+          className="rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <input
+          type="date"
+          name="to"
+          defaultValue={params.to}
+          className="rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          Filter
+        </button>
+      </form>
+
+      {/* Entries */}
+      {entries.length === 0 ? (
+        <div className="rounded-xl border bg-white p-12 text-center text-gray-500">
+          No changes match these filters
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border bg-white">
+          <table className="w-full text-left text-sm">
+            <thead className="border-b bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-4 py-3 font-medium">When</th>
+                <th className="px-4 py-3 font-medium">Who</th>
+                <th className="px-4 py-3 font-medium">Record</th>
+                <th className="px-4 py-3 font-medium">Action</th>
+                <th className="px-4 py-3 font-medium">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {entries.map((entry) => {
+                const changes = Object.entries((entry.changes as AuditChanges | null) || {});
+
+                return (
+                  <tr key={entry.id} className="align-top">
+                    <td className="whitespace-nowrap px-4 py-3">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p>{entry.actor ? entry.actor.name || entry.actor.email : "System"}</p>
+                      {entry.ipAddress && <p className="text-xs text-gray-500">{entry.ipAddress}</p>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <p>{entry.entityType.replace(/_/g, " ")}</p>
+                      <p className="font-mono text-xs text-gray-500">{entry.entityId}</p>
+                    </td>
+                    <td className="px-4 py-3">{entry.action.replace(/_/g, " ")}</td>
+                    <td className="px-4 py-3">
+                      {changes.length === 0 ? (
+                        <span className="text-gray-400">—</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {changes.map(([field, change]) => (
+                            <li key={field}>
+                              <span className="font-medium">{field}</span>:{" "}
+                              <span className="text-red-600 line-through">{formatChange(change.before)}</span>{" "}
+                              <span className="text-green-700">{formatChange(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatChange(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
@@ -1,5 +1,6 @@
 import { getJob } from "@/app/actions/jobs";
 import { formatCurrency } from "@/lib/utils";
+import { JOB_STATUS_LABELS, type JobStatus } from "@/lib/jobs/lifecycle";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -15,6 +16,8 @@ import {
   CheckCircle,
   Clock,
   AlertCircle,
+  Download,
+  XCircle,
 } from "lucide-react";
 
 export default async function JobDetailPage({
@@ -47,18 +50,32 @@ export default async function JobDetailPage({
     draft: "bg-gray-100 text-gray-800",
     analyzing: "bg-blue-100 text-blue-800",
     ready: "bg-green-100 text-green-800",
+    supplement_pending: "bg-orange-100 text-orange-800",
+    approved: "bg-green-100 text-green-800",
+    scheduled: "bg-indigo-100 text-indigo-800",
     in_progress: "bg-yellow-100 text-yellow-800",
     completed: "bg-gray-100 text-gray-800",
+    closed: "bg-gray-100 text-gray-800",
+    lost: "bg-red-100 text-red-800",
+    canceled: "bg-red-100 text-red-800",
   };
 
   const statusIcons: Record<string, React.ReactNode> = {
     draft: <FileText className="h-4 w-4" />,
     analyzing: <Clock className="h-4 w-4 animate-spin" />,
     ready: <CheckCircle className="h-4 w-4" />,
+    supplement_pending: <Clock className="h-4 w-4" />,
+    approved: <CheckCircle className="h-4 w-4" />,
+    scheduled: <Calendar className="h-4 w-4" />,
     in_progress: <Clock className="h-4 w-4" />,
     completed: <CheckCircle className="h-4 w-4" />,
+    closed: <CheckCircle className="h-4 w-4" />,
+    lost: <XCircle className="h-4 w-4" />,
+    canceled: <XCircle className="h-4 w-4" />,
   };
 
+  const statusLabel = (status: string) => JOB_STATUS_LABELS[status as JobStatus] ?? status;
+
   return (
     <div>
       {/* Header */}
@@ -76,7 +93,7 @@ export default async function JobDetailPage({
               className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm font-medium ${statusColors[job.status]}`}
             >
               {statusIcons[job.status]}
-              {job.status.replace("_", " ")}
+              {statusLabel(job.status)}
             </span>
           </div>
           <p className="text-gray-600">{job.customerName}</p>
@@ -220,6 +237,128 @@ export default async function JobDetailPage({
               {/* TODO: Display pipe jacks, vents, materials breakdown */}
             </div>
           )}
+
+          {/* Scope vs. Aerial Reconciliation */}
+          {job.discrepancies.length > 0 && (
+            <div className="rounded-xl border bg-white p-6">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Scope vs. Aerial</h2>
+                <span className="text-sm font-medium text-gray-600">
+                  {formatCurrency(
+                    job.discrepancies
+                      .filter((d) => d.status === "open")
+                      .reduce((sum, d) => sum + Number(d.dollarImpact), 0)
+                  )}{" "}
+                  open impact
+                </span>
+              </div>
+              <div className="space-y-2">
+                {job.discrepancies.map((discrepancy) => (
+                  <div
+                    key={discrepancy.id}
+                    className={`flex items-center justify-between rounded-lg border p-3 ${
+                      discrepancy.status === "dismissed" ? "opacity-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <AlertCircle
+                        className={`h-5 w-5 ${
+                          discrepancy.severity === "high"
+                            ? "text-red-500"
+                            : discrepancy.severity === "medium"
+                            ? "text-yellow-500"
+                            : "text-gray-400"
+                        }`}
+                      />
+                      <div>
+                        <p className="font-medium">{discrepancy.description}</p>
+                        <p className="text-sm text-gray-500">
+                          {discrepancy.type.replace("_", " ")} • {discrepancy.status}
+                        </p>
+                      </div>
+                    </div>
+                    <span
+                      className={`font-semibold ${
+                        Number(discrepancy.dollarImpact) >= 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {formatCurrency(Number(discrepancy.dollarImpact))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Supplements */}
+          {job.supplements.length > 0 && (
+            <div className="rounded-xl border bg-white p-6">
+              <h2 className="mb-4 text-lg font-semibold">Supplements</h2>
+              <div className="space-y-2">
+                {job.supplements.map((supplement) => (
+                  <div
+                    key={supplement.id}
+                    className="flex items-center justify-between rounded-lg border p-3"
+                  >
+                    <div className="flex items-center gap-3">
+                      <FileText className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <p className="font-medium">Supplement #{supplement.supplementNumber}</p>
+                        <p className="text-sm text-gray-500">
+                          {(supplement.items as unknown[]).length} items • {supplement.status.replace("_", " ")}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-green-600">
+                        +{formatCurrency(Number(supplement.rcvDelta))}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        RCV {formatCurrency(Number(supplement.revisedRCV))}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Estimates */}
+          {job.estimates.length > 0 && (
+            <div className="rounded-xl border bg-white p-6">
+              <h2 className="mb-4 text-lg font-semibold">Estimates</h2>
+              <div className="space-y-2">
+                {job.estimates.map((estimate) => (
+                  <div
+                    key={estimate.id}
+                    className="flex items-center justify-between rounded-lg border p-3"
+                  >
+                    <div className="flex items-center gap-3">
+                      <DollarSign className="h-5 w-5 text-gray-400" />
+                      <div>
+                        <p className="font-medium">
+                          {formatCurrency(Number(estimate.totalPrice))}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {estimate.type.replace("_", " ")} v{estimate.version} • {estimate.status} •{" "}
+                          {new Date(estimate.createdAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                    <a
+                      href={`/api/estimates/${estimate.id}/pdf`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 rounded-lg border px-3 py-1.5 text-sm font-medium hover:bg-gray-50"
+                    >
+                      <Download className="h-4 w-4" />
+                      PDF
+                    </a>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Sidebar */}
@@ -281,19 +420,31 @@ export default async function JobDetailPage({
             </div>
           </div>
 
-          {/* Timestamps */}
+          {/* Status History */}
           <div className="rounded-xl border bg-white p-6">
             <h2 className="mb-4 text-lg font-semibold">Activity</h2>
-            <dl className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <dt className="text-gray-600">Created</dt>
-                <dd>{new Date(job.createdAt).toLocaleDateString()}</dd>
-              </div>
-              <div className="flex justify-between">
-                <dt className="text-gray-600">Updated</dt>
-                <dd>{new Date(job.updatedAt).toLocaleDateString()}</dd>
-              </div>
-            </dl>
+            {job.statusHistory.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Created {new Date(job.createdAt).toLocaleDateString()}
+              </p>
+            ) : (
+              <ol className="space-y-3 text-sm">
+                {job.statusHistory.map((entry) => (
+                  <li key={entry.id} className="border-l-2 pl-3">
+                    <p className="font-medium">
+                      {entry.fromStatus
+                        ? `${statusLabel(entry.fromStatus)} → ${statusLabel(entry.toStatus)}`
+                        : `Created as ${statusLabel(entry.toStatus)}`}
+                    </p>
+                    <p className="text-gray-500">
+                      {entry.changedBy ? entry.changedBy.name || entry.changedBy.email : "System"} •{" "}
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                    {entry.note && <p className="text-gray-600">{entry.note}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         </div>
       </div>
@@ -1,5 +1,6 @@
 import { getJobs } from "@/app/actions/jobs";
 import { formatCurrency, formatDate } from "@/lib/utils";
+import { JOB_STATUSES, JOB_STATUS_LABELS, type JobStatus } from "@/lib/jobs/lifecycle";
 import Link from "next/link";
 import { Plus, Search, Filter, FileText, MapPin } from "lucide-react";
 
@@ -55,11 +56,11 @@ export default async function JobsPage({
           className="rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
         >
           <option value="">All Statuses</option>
-          <option value="draft">Draft</option>
-          <option value="analyzing">Analyzing</option>
-          <option value="ready">Ready</option>
-          <option value="in_progress">In Progress</option>
-          <option value="completed">Completed</option>
+          {JOB_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {JOB_STATUS_LABELS[status]}
+            </option>
+          ))}
         </select>
       </div>
 
@@ -112,8 +113,14 @@ function JobCard({
     draft: "bg-gray-100 text-gray-800",
     analyzing: "bg-blue-100 text-blue-800",
     ready: "bg-green-100 text-green-800",
+    supplement_pending: "bg-orange-100 text-orange-800",
+    approved: "bg-green-100 text-green-800",
+    scheduled: "bg-indigo-100 text-indigo-800",
     in_progress: "bg-yellow-100 text-yellow-800",
     completed: "bg-gray-100 text-gray-800",
+    closed: "bg-gray-100 text-gray-800",
+    lost: "bg-red-100 text-red-800",
+    canceled: "bg-red-100 text-red-800",
   };
 
   return (
@@ -130,7 +137,7 @@ function JobCard({
                 statusColors[job.status] || statusColors.draft
               }`}
             >
-              {job.status.replace("_", " ")}
+              {JOB_STATUS_LABELS[job.status as JobStatus] ?? job.status}
             </span>
           </div>
           <p className="mt-1 text-gray-900">{job.customerName}</p>
@@ -1,4 +1,7 @@
-import { getDevSession } from "@/lib/dev-session";
+import { signOut } from "@/auth";
+import { getSession } from "@/lib/get-session";
+import { isDevAuthBypassEnabled } from "@/lib/dev-session";
+import { can, getCurrentUser } from "@/lib/permissions";
 import Link from "next/link";
 import {
   Upload,
@@ -7,6 +10,8 @@ import {
   LogOut,
   Building2,
   BarChart3,
+  History,
+  Users,
 } from "lucide-react";
 
 export default async function DashboardLayout({
@@ -14,8 +19,7 @@ export default async function DashboardLayout({
 }: {
   children: React.ReactNode;
 }) {
-  // DEV MODE: Use dev session instead of auth
-  const session = getDevSession();
+  const [session, currentUser] = await Promise.all([getSession(), getCurrentUser()]);
 
   return (
     <div className="flex min-h-screen bg-gray-50">
@@ -36,6 +40,14 @@ export default async function DashboardLayout({
           <NavLink href="/reports" icon={<BarChart3 size={20} />}>
             Reports
           </NavLink>
+          <NavLink href="/team" icon={<Users size={20} />}>
+            Team
+          </NavLink>
+          {can(currentUser.role, "audit:read") && (
+            <NavLink href="/audit" icon={<History size={20} />}>
+              Audit Log
+            </NavLink>
+          )}
           <NavLink href="/settings" icon={<Settings size={20} />}>
             Settings
           </NavLink>
@@ -46,10 +58,27 @@ export default async function DashboardLayout({
             <div className="font-medium text-gray-900">{session.user.name}</div>
             <div className="text-xs">{session.user.organizationName}</div>
           </div>
-          <div className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-400">
-            <LogOut size={18} />
-            <span>Auth Bypassed (Dev Mode)</span>
-          </div>
+          {isDevAuthBypassEnabled() ? (
+            <div className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-400">
+              <LogOut size={18} />
+              <span>Auth Bypassed (Dev Mode)</span>
+            </div>
+          ) : (
+            <form
+              action={async () => {
+                "use server";
+                await signOut({ redirectTo: "/login" });
+              }}
+            >
+              <button
+                type="submit"
+                className="flex w-full items-center gap-2 rounded-lg px-3 py-2 text-sm text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+              >
+                <LogOut size={18} />
+                <span>Sign Out</span>
+              </button>
+            </form>
+          )}
         </div>
       </aside>
 
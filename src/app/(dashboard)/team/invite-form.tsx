@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Loader2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { inviteTeamMember } from "@/app/actions/team";
+import type { Role } from "@/lib/permissions";
+
+export function InviteForm({ roles }: { roles: Role[] }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("member");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const result = await inviteTeamMember({ email, role });
+      setInviteUrl(result.inviteUrl);
+      setEmail("");
+      toast.success("Invitation created");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not create invitation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!inviteUrl) return;
+    await navigator.clipboard.writeText(inviteUrl);
+    toast.success("Link copied");
+  };
+
+  return (
+    <div className="rounded-xl border bg-white p-6">
+      <h2 className="mb-4 text-lg font-semibold">Invite a Teammate</h2>
+      <form onSubmit={handleSubmit} className="flex flex-wrap gap-4">
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="coworker@company.com"
+          className="flex-1 rounded-lg border px-4 py-2 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as Role)}
+          className="rounded-lg border px-4 py-2 capitalize focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          {roles.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 size={18} className="animate-spin" /> : <UserPlus size={18} />}
+          Invite
+        </button>
+      </form>
+
+      {inviteUrl && (
+        <div className="mt-4 rounded-lg bg-blue-50 p-4 text-sm">
+          <p className="mb-2 text-blue-900">Send this link to your teammate. It works once and expires in 7 days.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 truncate rounded bg-white px-3 py-2 text-xs">{inviteUrl}</code>
+            <button
+              type="button"
+              onClick={copyLink}
+              className="flex items-center gap-1 rounded-lg border bg-white px-3 py-2 text-xs font-medium hover:bg-gray-50"
+            >
+              <Copy size={14} />
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import {
+  deactivateUser,
+  getTeam,
+  reactivateUser,
+  revokeInvitation,
+  updateUserRole,
+} from "@/app/actions/team";
+import { ROLES, type Role } from "@/lib/permissions";
+import { InviteForm } from "./invite-form";
+
+export default async function TeamPage() {
+  const { members, invitations, seats, currentUserId, canManage, canManageOwners } = await getTeam();
+  const assignableRoles = canManageOwners ? ROLES : ROLES.filter((role) => role !== "owner");
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+        <p className="text-gray-600">
+          {seats.used} of {seats.limit ?? "unlimited"} seat{seats.limit !== 1 ? "s" : ""} used
+        </p>
+      </div>
+
+      {canManage && (
+        <div className="mb-6">
+          <InviteForm roles={assignableRoles} />
+        </div>
+      )}
+
+      {/* Members */}
+      <div className="overflow-hidden rounded-xl border bg-white">
+        <table className="w-full text-left text-sm">
+          <thead className="border-b bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">Name</th>
+              <th className="px-4 py-3 font-medium">Role</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              {canManage && <th className="px-4 py-3 font-medium" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {members.map((member) => {
+              const editable =
+                canManage && member.id !== currentUserId && (member.role !== "owner" || canManageOwners);
+
+              return (
+                <tr key={member.id} className={member.deactivatedAt ? "text-gray-400" : undefined}>
+                  <td className="px-4 py-3">
+                    <p className="font-medium">{member.name || member.email}</p>
+                    {member.name && <p className="text-xs text-gray-500">{member.email}</p>}
+                  </td>
+                  <td className="px-4 py-3">
+                    {editable ? (
+                      <form
+                        action={async (formData: FormData) => {
+                          "use server";
+                          await updateUserRole(member.id, formData.get("role") as Role);
+                        }}
+                        className="flex gap-2"
+                      >
+                        <select
+                          name="role"
+                          defaultValue={member.role}
+                          className="rounded-lg border px-2 py-1 capitalize"
+                        >
+                          {assignableRoles.map((role) => (
+                            <option key={role} value={role}>
+                              {role}
+                            </option>
+                          ))}
+                        </select>
+                        <button type="submit" className="text-xs font-medium text-blue-600 hover:underline">
+                          Save
+                        </button>
+                      </form>
+                    ) : (
+                      <span className="capitalize">{member.role}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    {member.deactivatedAt
+                      ? `Deactivated ${new Date(member.deactivatedAt).toLocaleDateString()}`
+                      : "Active"}
+                  </td>
+                  {canManage && (
+                    <td className="px-4 py-3 text-right">
+                      {editable && (
+                        <form
+                          action={async () => {
+                            "use server";
+                            if (member.deactivatedAt) {
+                              await reactivateUser(member.id);
+                            } else {
+                              await deactivateUser(member.id);
+                            }
+                          }}
+                        >
+                          <button
+                            type="submit"
+                            className={`text-xs font-medium hover:underline ${member.deactivatedAt ? "text-blue-600" : "text-red-600"}`}
+                          >
+                            {member.deactivatedAt ? "Reactivate" : "Deactivate"}
+                          </button>
+                        </form>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pending invitations */}
+      {invitations.length > 0 && (
+        <div className="mt-6 overflow-hidden rounded-xl border bg-white">
+          <h2 className="border-b px-4 py-3 font-semibold">Pending Invitations</h2>
+          <table className="w-full text-left text-sm">
+            <tbody className="divide-y">
+              {invitations.map((invitation) => (
+                <tr key={invitation.identifier}>
+                  <td className="px-4 py-3">{invitation.identifier}</td>
+                  <td className="px-4 py-3 capitalize">{invitation.role}</td>
+                  <td className="px-4 py-3 text-gray-500">
+                    Invited by {invitation.invitedBy?.name || invitation.invitedBy?.email || "—"} • expires{" "}
+                    {new Date(invitation.expires).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <form
+                      action={async () => {
+                        "use server";
+                        await revokeInvitation(invitation.identifier);
+                      }}
+                    >
+                      <button type="submit" className="text-xs font-medium text-red-600 hover:underline">
+                        Revoke
+                      </button>
+                    </form>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
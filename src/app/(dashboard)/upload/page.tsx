@@ -48,7 +48,7 @@ export default function UploadPage() {
       const formData = new FormData();
       formData.append("file", file);
 
-      setUploadProgress("Processing document with AI...");
+      setUploadProgress("Queuing document for analysis...");
       const result = await createJobFromDocument(formData);
 
       setUploadProgress("Job created! Redirecting...");
@@ -0,0 +1,54 @@
+"use server";
+
+import { requirePermission } from "@/lib/permissions";
+import { auditLogger } from "@/lib/audit/log";
+import { z } from "zod";
+
+const auditFiltersSchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  action: z.string().optional(),
+  from: z.coerce.date().optional(),
+  // A bare date includes the whole day
+  to: z.preprocess(
+    (value) => (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value),
+    z.coerce.date().optional()
+  ),
+  limit: z.number().int().min(1).max(500).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+// Dates may come straight from a query string
+type AuditFilterInput = Omit<z.input<typeof auditFiltersSchema>, "from" | "to"> & {
+  from?: string | Date;
+  to?: string | Date;
+};
+
+// Rows in one CSV export
+const EXPORT_LIMIT = 50000;
+
+/**
+ * Get the organization's audit log, newest first
+ */
+export async function getAuditLog(filters?: AuditFilterInput) {
+  const { organizationId } = await requirePermission("audit:read");
+  const validated = auditFiltersSchema.parse(filters || {});
+
+  return auditLogger.list(organizationId, { limit: 100, ...validated });
+}
+
+/**
+ * Export the organization's audit log as CSV
+ */
+export async function getAuditLogCsv(filters?: AuditFilterInput) {
+  const { organizationId } = await requirePermission("audit:read");
+  const { limit: _limit, offset: _offset, ...validated } = auditFiltersSchema.parse(filters || {});
+
+  const { entries } = await auditLogger.list(organizationId, { ...validated, limit: EXPORT_LIMIT });
+
+  return {
+    fileName: `audit-log-${new Date().toISOString().slice(0, 10)}.csv`,
+    content: auditLogger.toCsv(entries),
+  };
+}
@@ -0,0 +1,149 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { claimLedger } from "@/lib/claims/ledger";
+import { recordAudit } from "@/lib/audit/log";
+import { z } from "zod";
+
+const claimPaymentSchema = z.object({
+  type: z.enum(["acv", "depreciation_release", "supplement", "deductible"]),
+  amount: z.number().positive(),
+  receivedAt: z.coerce.date(),
+  reference: z.string().max(100).optional(),
+  supplementId: z.string().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * Record a carrier check or homeowner payment against a job
+ */
+export async function recordClaimPayment(jobId: string, data: z.input<typeof claimPaymentSchema>) {
+  const { organizationId, userId } = await requirePermission("claims:write");
+  const validated = claimPaymentSchema.parse(data);
+
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, organizationId },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  if (validated.supplementId) {
+    const supplement = await prisma.supplement.findFirst({
+      where: { id: validated.supplementId, jobId },
+    });
+
+    if (!supplement) {
+      throw new Error("Supplement not found");
+    }
+  }
+
+  const payment = await prisma.claimPayment.create({
+    data: {
+      jobId,
+      ...validated,
+      supplementId: validated.type === "supplement" ? validated.supplementId : undefined,
+      recordedById: userId,
+    },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "claim_payment",
+    entityId: payment.id,
+    action: "create",
+    after: payment,
+  });
+
+  revalidatePath(`/jobs/${jobId}`);
+
+  return payment;
+}
+
+/**
+ * Delete a payment recorded in error
+ */
+export async function deleteClaimPayment(paymentId: string) {
+  const { organizationId } = await requirePermission("claims:write");
+
+  const payment = await prisma.claimPayment.findFirst({
+    where: { id: paymentId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!payment || payment.job.organizationId !== organizationId) {
+    throw new Error("Payment not found");
+  }
+
+  await prisma.claimPayment.delete({ where: { id: paymentId } });
+
+  const { job: _job, ...deleted } = payment;
+  await recordAudit({
+    organizationId,
+    entityType: "claim_payment",
+    entityId: paymentId,
+    action: "delete",
+    before: deleted,
+  });
+
+  revalidatePath(`/jobs/${payment.jobId}`);
+
+  return { success: true };
+}
+
+/**
+ * Get a job's claim payments with expected vs received balances
+ */
+export async function getClaimLedger(jobId: string) {
+  const organizationId = await getOrganizationId();
+
+  const job = await prisma.job.findFirst({
+    where: { id: jobId, organizationId },
+    select: { id: true },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  return claimLedger.getLedger(jobId);
+}
+
+/**
+ * Mark a line item's depreciation as recoverable or not, where the scope
+ * didn't say
+ */
+export async function setDepreciationRecoverable(lineItemId: string, recoverable: boolean) {
+  const { organizationId } = await requirePermission("claims:write");
+
+  const lineItem = await prisma.lineItem.findFirst({
+    where: { id: lineItemId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!lineItem || lineItem.job.organizationId !== organizationId) {
+    throw new Error("Line item not found");
+  }
+
+  const updated = await prisma.lineItem.update({
+    where: { id: lineItemId },
+    data: { depreciationRecoverable: recoverable },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "line_item",
+    entityId: lineItemId,
+    action: "update",
+    before: lineItem,
+    after: updated,
+  });
+
+  revalidatePath(`/jobs/${lineItem.jobId}`);
+
+  return updated;
+}
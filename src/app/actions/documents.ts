@@ -1,16 +1,27 @@
 "use server";
 
 import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { uploadToS3, generateDocumentKey, getSignedDownloadUrl } from "@/lib/s3/client";
-import { documentProcessor } from "@/lib/agentcore/pipeline/document-processor";
+import { taskQueue } from "@/lib/queue/task-queue";
+import { recordAudit } from "@/lib/audit/log";
+import {
+  getCheckpoints,
+  GROUP_ORDER,
+  resetStages,
+  type PipelineStageGroup,
+} from "@/lib/agentcore/pipeline/checkpoints";
+import { z } from "zod";
+
+const stageGroupSchema = z.enum(GROUP_ORDER as [PipelineStageGroup, ...PipelineStageGroup[]]).optional();
 
 /**
  * Upload a document for processing
  */
 export async function uploadDocument(formData: FormData) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("jobs:write");
 
   const file = formData.get("file") as File;
   const jobId = formData.get("jobId") as string;
@@ -61,25 +72,22 @@ export async function uploadDocument(formData: FormData) {
     },
   });
 
-  // Trigger async processing
-  processDocumentAsync(document.id);
+  await recordAudit({
+    organizationId,
+    entityType: "document",
+    entityId: document.id,
+    action: "upload",
+    after: document,
+  });
+
+  // Queue for background processing
+  await taskQueue.enqueueDocumentProcessing(document);
 
   revalidatePath(`/jobs/${jobId}`);
 
   return document;
 }
 
-/**
- * Process document asynchronously
- */
-async function processDocumentAsync(documentId: string) {
-  try {
-    await documentProcessor.processDocument(documentId);
-  } catch (error) {
-    console.error("Document processing failed:", error);
-  }
-}
-
 /**
  * Get document by ID
  */
@@ -142,7 +150,7 @@ export async function getDocumentDownloadUrl(documentId: string) {
  * Delete a document
  */
 export async function deleteDocument(documentId: string) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("records:delete");
 
   const document = await prisma.document.findFirst({
     where: {
@@ -159,6 +167,14 @@ export async function deleteDocument(documentId: string) {
     where: { id: documentId },
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "document",
+    entityId: documentId,
+    action: "delete",
+    before: document,
+  });
+
   revalidatePath(`/jobs/${document.jobId}`);
 
   return { success: true };
@@ -166,9 +182,17 @@ export async function deleteDocument(documentId: string) {
 
 /**
  * Reprocess a document
+ *
+ * Re-runs the pipeline from the given stage group, reusing checkpoints of the
+ * stages before it. Without a stage, failed documents resume from the first
+ * incomplete stage and all other documents are processed from scratch.
  */
-export async function reprocessDocument(documentId: string) {
-  const organizationId = await getOrganizationId();
+export async function reprocessDocument(
+  documentId: string,
+  fromStage?: PipelineStageGroup
+) {
+  const { organizationId } = await requirePermission("jobs:write");
+  const stage = stageGroupSchema.parse(fromStage);
 
   const document = await prisma.document.findFirst({
     where: {
@@ -181,8 +205,22 @@ export async function reprocessDocument(documentId: string) {
     throw new Error("Document not found");
   }
 
+  // Resetting checkpoints under a running worker would lose the reprocess
+  const running = await prisma.backgroundTask.count({
+    where: { documentId, type: "process_document", status: "leased", leaseExpiresAt: { gt: new Date() } },
+  });
+  if (running > 0) {
+    throw new Error("Document is being processed, try again when it finishes");
+  }
+
+  const resetFrom =
+    stage ?? (document.processingStatus === "failed" ? undefined : "ocr");
+  if (resetFrom) {
+    await resetStages(documentId, resetFrom);
+  }
+
   // Reset processing status
-  await prisma.document.update({
+  const updated = await prisma.document.update({
     where: { id: documentId },
     data: {
       processingStatus: "pending",
@@ -191,14 +229,46 @@ export async function reprocessDocument(documentId: string) {
     },
   });
 
-  // Trigger reprocessing
-  processDocumentAsync(documentId);
+  await recordAudit({
+    organizationId,
+    entityType: "document",
+    entityId: documentId,
+    action: "reprocess",
+    before: document,
+    after: { ...updated, reprocessFrom: resetFrom ?? "resume" },
+  });
+
+  // Queue for reprocessing
+  await taskQueue.enqueueDocumentProcessing(document);
 
   revalidatePath(`/jobs/${document.jobId}`);
 
   return { success: true };
 }
 
+/**
+ * Get pipeline stage checkpoints for a document
+ */
+export async function getDocumentCheckpoints(documentId: string) {
+  const organizationId = await getOrganizationId();
+
+  const document = await prisma.document.findFirst({
+    where: {
+      id: documentId,
+      organizationId,
+    },
+  });
+
+  if (!document) {
+    throw new Error("Document not found");
+  }
+
+  const checkpoints = await getCheckpoints(documentId);
+
+  // Stage outputs can be large (OCR text); return status only
+  return checkpoints.map(({ output: _output, ...checkpoint }) => checkpoint);
+}
+
 /**
  * Get insurance analysis for a job
  */
@@ -1,9 +1,26 @@
 "use server";
 
 import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
-import { PricingCalculator } from "@/lib/pricing/calculator";
+import { DEFAULT_PRICING_RATES, PricingCalculator } from "@/lib/pricing/calculator";
+import { productMatcher } from "@/lib/pricing/product-matcher";
+import { aerialLaborContext } from "@/lib/pricing/labor";
+import { formatJurisdiction } from "@/lib/pricing/sales-tax";
+import { claimLedger, claimLineItems } from "@/lib/claims/ledger";
+import { recordAudit } from "@/lib/audit/log";
+import { renderEstimatePdf } from "@/lib/estimates/pdf";
+import { loadBranding } from "@/lib/pdf/branding";
+import { uploadToS3, generateDocumentKey, getSignedDownloadUrl } from "@/lib/s3/client";
+import {
+  applyEstimateEdits,
+  diffEstimates,
+  type EstimateEdit,
+  type EstimateTotals,
+} from "@/lib/estimates/versioning";
+import type { PriceBreakdown, PricedItem, PricingRates } from "@/lib/pricing/calculator";
+import type { Estimate, Job } from "@prisma/client";
 
 const pricingCalculator = new PricingCalculator();
 
@@ -15,12 +32,16 @@ export async function generateEstimate(
   type: "consumer" | "contractor" | "material_only",
   options?: {
     preferredSupplier?: string;
-    laborMarkup?: number;
     materialMarkup?: number;
+    laborMarkup?: number;
     overhead?: number;
+    source?: "insurance" | "aerial"; // Defaults to the scope once there is one
+    priceDate?: Date; // Price with supplier prices as of this date (default now)
+    stories?: number; // Stories to the eave, for high roof labor
+    layers?: number; // Layers to tear off
   }
 ) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("estimates:write");
 
   // Get job with line items
   const job = await prisma.job.findFirst({
@@ -34,6 +55,10 @@ export async function generateEstimate(
         orderBy: { createdAt: "desc" },
         take: 1,
       },
+      aerialReports: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
     },
   });
 
@@ -41,6 +66,18 @@ export async function generateEstimate(
     throw new Error("Job not found");
   }
 
+  // Price either the insurance scope or the aerial takeoff, never both
+  const source =
+    options?.source ||
+    (job.lineItems.some((item) => item.source === "insurance") ? "insurance" : "aerial");
+  const lineItems = job.lineItems.filter(
+    (item) => item.source === source || item.source === "manual"
+  );
+
+  if (lineItems.length === 0) {
+    throw new Error("No line items to price");
+  }
+
   // Get supplier configurations
   const supplierConfigs = await prisma.supplierConfiguration.findMany({
     where: {
@@ -51,22 +88,25 @@ export async function generateEstimate(
 
   // Calculate pricing
   const pricingResult = await pricingCalculator.calculateEstimate(
-    job.lineItems,
+    lineItems,
     organizationId,
     {
       preferredSupplier: options?.preferredSupplier,
-      laborMarkup: options?.laborMarkup ?? 0.35, // 35% default
-      materialMarkup: options?.materialMarkup ?? 0.25, // 25% default
-      overhead: options?.overhead ?? 0.1, // 10% default
+      materialMarkup: options?.materialMarkup,
+      laborMarkup: options?.laborMarkup,
+      overhead: options?.overhead,
+      state: job.state,
+      zipCode: job.zipCode,
+      asOf: options?.priceDate,
+      labor: {
+        ...aerialLaborContext(job.aerialReports[0]),
+        stories: options?.stories,
+        layers: options?.layers,
+      },
     }
   );
 
-  // Calculate totals
-  const materialCost = pricingResult.totalMaterialCost;
-  const laborCost = pricingResult.totalLaborCost;
-  const overheadAmount = (materialCost + laborCost) * (options?.overhead ?? 0.1);
-  const profit = pricingResult.profit;
-  const totalPrice = materialCost + laborCost + overheadAmount + profit;
+  const { breakdown } = pricingResult;
 
   // Create estimate
   const estimate = await prisma.estimate.create({
@@ -74,29 +114,44 @@ export async function generateEstimate(
       jobId,
       type,
       status: "draft",
-      materialCost,
-      laborCost,
-      overhead: overheadAmount,
-      profit,
-      totalPrice,
+      ...getTotals(breakdown),
+      pricingRates: breakdown.rates as object,
+      taxJurisdiction: formatJurisdiction(pricingResult.tax.jurisdiction),
       lineItems: pricingResult.items as object,
       supplierUsed: pricingResult.primarySupplier,
-      priceDate: new Date(),
+      priceDate: options?.priceDate ?? new Date(),
     },
   });
 
   // Update job with estimated profit
-  await prisma.job.update({
+  const updatedJob = await prisma.job.update({
     where: { id: jobId },
     data: {
-      estimatedProfit: profit,
-      profitMargin: totalPrice > 0 ? (profit / totalPrice) * 100 : 0,
+      estimatedProfit: breakdown.profit,
+      profitMargin: breakdown.totalPrice > 0 ? (breakdown.profit / breakdown.totalPrice) * 100 : 0,
     },
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "estimate",
+    entityId: estimate.id,
+    action: "create",
+    after: estimate,
+  });
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: jobId,
+    action: "update",
+    before: job,
+    after: updatedJob,
+  });
+
   revalidatePath(`/jobs/${jobId}`);
 
-  return estimate;
+  // Scope labor without a cost, for the estimator to price by hand
+  return { ...estimate, unpricedLabor: pricingResult.unpricedLabor };
 }
 
 /**
@@ -154,6 +209,292 @@ export async function getEstimate(estimateId: string) {
   return estimate;
 }
 
+// Swaps arrive as a product ID and are priced on the server
+export type EstimateEditInput =
+  | Exclude<EstimateEdit, { type: "swap_product" }>
+  | { type: "swap_product"; itemId: string; productId: string; supplier?: string };
+
+/**
+ * Save estimator edits as a new version linked to the estimate they were made on
+ */
+export async function saveEstimateVersion(
+  estimateId: string,
+  edits: EstimateEditInput[],
+  changeNote?: string
+) {
+  const { organizationId, userId } = await requirePermission("estimates:write");
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  if (edits.length === 0) {
+    throw new Error("No changes to save");
+  }
+
+  // Price product swaps with the organization's suppliers
+  const resolvedEdits: EstimateEdit[] = [];
+  for (const edit of edits) {
+    if (edit.type !== "swap_product") {
+      resolvedEdits.push(edit);
+      continue;
+    }
+
+    const pricing = await pricingCalculator.priceProduct(
+      edit.productId,
+      organizationId,
+      edit.supplier
+    );
+    if (!pricing) {
+      throw new Error("No supplier price available for this product");
+    }
+
+    resolvedEdits.push({
+      type: "swap_product",
+      itemId: edit.itemId,
+      product: pricing.product,
+      unitPrice: pricing.unitPrice,
+      supplier: pricing.supplier,
+      sku: pricing.sku,
+    });
+  }
+
+  const originalItems = estimate.lineItems as unknown as PricedItem[];
+  const items = applyEstimateEdits(originalItems, resolvedEdits);
+
+  // A product swap on a scope line is a matching correction worth remembering
+  for (const edit of resolvedEdits) {
+    if (edit.type !== "swap_product") continue;
+
+    const original = originalItems.find((item) => item.id === edit.itemId);
+    if (original && !original.custom) {
+      await productMatcher.learnAlias(organizationId, original.description, edit.product.id, userId);
+    }
+  }
+
+  // Reprice with the rates the estimate was generated with
+  const breakdown = pricingCalculator.buildBreakdown(items, getPricingRates(estimate));
+
+  const rootEstimateId = estimate.rootEstimateId || estimate.id;
+  const latest = await prisma.estimate.aggregate({
+    where: { OR: [{ id: rootEstimateId }, { rootEstimateId }] },
+    _max: { version: true },
+  });
+
+  const version = await prisma.estimate.create({
+    data: {
+      jobId: estimate.jobId,
+      type: estimate.type,
+      status: "draft",
+      version: (latest._max.version || estimate.version) + 1,
+      rootEstimateId,
+      parentEstimateId: estimate.id,
+      changeNote: changeNote || null,
+      ...getTotals(breakdown),
+      pricingRates: breakdown.rates as object,
+      taxJurisdiction: estimate.taxJurisdiction,
+      lineItems: items as object,
+      supplierUsed: estimate.supplierUsed,
+      priceDate: estimate.priceDate,
+    },
+  });
+
+  await prisma.job.update({
+    where: { id: estimate.jobId },
+    data: {
+      estimatedProfit: breakdown.profit,
+      profitMargin: breakdown.totalPrice > 0 ? (breakdown.profit / breakdown.totalPrice) * 100 : 0,
+    },
+  });
+
+  // Each version is its own row; the diff against its parent shows what the edits changed
+  await recordAudit({
+    organizationId,
+    entityType: "estimate",
+    entityId: version.id,
+    action: "create_version",
+    before: estimate,
+    after: version,
+  });
+
+  revalidatePath(`/jobs/${estimate.jobId}`);
+
+  return version;
+}
+
+/**
+ * Get every version of an estimate, oldest first
+ */
+export async function getEstimateVersions(estimateId: string) {
+  const organizationId = await getOrganizationId();
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  const rootEstimateId = estimate.rootEstimateId || estimate.id;
+
+  return prisma.estimate.findMany({
+    where: { OR: [{ id: rootEstimateId }, { rootEstimateId }] },
+    orderBy: { version: "asc" },
+  });
+}
+
+/**
+ * Diff quantities and dollars between two versions of the same estimate
+ */
+export async function compareEstimateVersions(fromEstimateId: string, toEstimateId: string) {
+  const organizationId = await getOrganizationId();
+
+  const estimates = await prisma.estimate.findMany({
+    where: { id: { in: [fromEstimateId, toEstimateId] } },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  const from = estimates.find((e) => e.id === fromEstimateId);
+  const to = estimates.find((e) => e.id === toEstimateId);
+
+  if (
+    !from ||
+    !to ||
+    from.job.organizationId !== organizationId ||
+    to.job.organizationId !== organizationId
+  ) {
+    throw new Error("Estimate not found");
+  }
+
+  if ((from.rootEstimateId || from.id) !== (to.rootEstimateId || to.id)) {
+    throw new Error("Estimates are not versions of the same estimate");
+  }
+
+  return {
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    ...diffEstimates(
+      { items: from.lineItems as unknown as PricedItem[], totals: getTotals(from) },
+      { items: to.lineItems as unknown as PricedItem[], totals: getTotals(to) }
+    ),
+  };
+}
+
+function getTotals(estimate: Estimate | PriceBreakdown): EstimateTotals {
+  return {
+    materialCost: Number(estimate.materialCost),
+    laborCost: Number(estimate.laborCost),
+    overhead: Number(estimate.overhead),
+    profit: Number(estimate.profit),
+    salesTax: Number(estimate.salesTax),
+    totalPrice: Number(estimate.totalPrice),
+  };
+}
+
+/**
+ * Rates an estimate was priced with. Estimates from before rates were stored
+ * keep their overhead rate and get the default markups.
+ */
+function getPricingRates(estimate: Estimate): PricingRates {
+  if (estimate.pricingRates) {
+    return estimate.pricingRates as unknown as PricingRates;
+  }
+
+  const baseCost = Number(estimate.materialCost) + Number(estimate.laborCost);
+  return {
+    ...DEFAULT_PRICING_RATES,
+    overhead: baseCost > 0 ? Number(estimate.overhead) / baseCost : DEFAULT_PRICING_RATES.overhead,
+    salesTaxRate: 0,
+  };
+}
+
+/**
+ * Render an estimate's PDF and store it in S3, replacing any previous render
+ */
+export async function generateEstimatePdf(estimateId: string) {
+  const { organizationId } = await requirePermission("estimates:write");
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: true },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  const pdfS3Key = await storeEstimatePdf(estimate);
+
+  await recordAudit({
+    organizationId,
+    entityType: "estimate",
+    entityId: estimateId,
+    action: "generate_pdf",
+    before: { pdfS3Key: estimate.pdfS3Key },
+    after: { pdfS3Key },
+  });
+
+  revalidatePath(`/jobs/${estimate.jobId}`);
+
+  return { pdfS3Key };
+}
+
+/**
+ * Get a signed download URL for an estimate PDF. Rendering a PDF that doesn't
+ * exist yet is a write, so it takes the permission to generate one.
+ */
+export async function getEstimateDownloadUrl(estimateId: string) {
+  const organizationId = await getOrganizationId();
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  const pdfS3Key = estimate.pdfS3Key || (await generateEstimatePdf(estimateId)).pdfS3Key;
+
+  return getSignedDownloadUrl(pdfS3Key);
+}
+
+/**
+ * Render, upload and record an estimate PDF
+ */
+async function storeEstimatePdf(estimate: Estimate & { job: Job }) {
+  const { job } = estimate;
+
+  const pdf = await renderEstimatePdf({
+    branding: await loadBranding(job.organizationId),
+    job,
+    estimate,
+  });
+
+  const key = generateDocumentKey(
+    job.organizationId,
+    job.id,
+    "estimate",
+    `estimate-${job.jobNumber}-${estimate.type}-${estimate.id}.pdf`
+  );
+  await uploadToS3(pdf, key, "application/pdf");
+
+  await prisma.estimate.update({
+    where: { id: estimate.id },
+    data: { pdfS3Key: key },
+  });
+
+  return key;
+}
+
 /**
  * Update estimate status
  */
@@ -161,7 +502,7 @@ export async function updateEstimateStatus(
   estimateId: string,
   status: "draft" | "sent" | "accepted" | "declined"
 ) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("estimates:write");
 
   const estimate = await prisma.estimate.findFirst({
     where: { id: estimateId },
@@ -182,6 +523,15 @@ export async function updateEstimateStatus(
     data: updateData,
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "estimate",
+    entityId: estimateId,
+    action: "status_change",
+    before: estimate,
+    after: updated,
+  });
+
   revalidatePath(`/jobs/${estimate.jobId}`);
 
   return updated;
@@ -191,7 +541,7 @@ export async function updateEstimateStatus(
  * Delete an estimate
  */
 export async function deleteEstimate(estimateId: string) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("records:delete");
 
   const estimate = await prisma.estimate.findFirst({
     where: { id: estimateId },
@@ -206,6 +556,15 @@ export async function deleteEstimate(estimateId: string) {
     where: { id: estimateId },
   });
 
+  const { job: _job, ...deleted } = estimate;
+  await recordAudit({
+    organizationId,
+    entityType: "estimate",
+    entityId: estimateId,
+    action: "delete",
+    before: deleted,
+  });
+
   revalidatePath(`/jobs/${estimate.job.id}`);
 
   return { success: true };
@@ -233,6 +592,8 @@ export async function getProfitabilityReport(jobId: string) {
         orderBy: { createdAt: "desc" },
         take: 1,
       },
+      supplements: true,
+      claimPayments: true,
     },
   });
 
@@ -242,6 +603,7 @@ export async function getProfitabilityReport(jobId: string) {
 
   const estimate = job.estimates[0];
   const analysis = job.insuranceAnalyses[0];
+  const ledger = claimLedger.summarize({ ...job, lineItems: claimLineItems(job.lineItems, analysis) });
 
   // Calculate profitability metrics
   const insuranceRCV = Number(job.totalRCV) || 0;
@@ -289,6 +651,15 @@ export async function getProfitabilityReport(jobId: string) {
       net: netProfit,
       margin: profitMargin,
     },
+    cash: {
+      collected: ledger.totals.collected,
+      owedByCarrier: ledger.totals.owedByCarrier,
+      owedByHomeowner: ledger.totals.owedByHomeowner,
+      outstanding: ledger.totals.outstanding,
+      position: ledger.totals.collected - totalCost, // Cash in hand against job cost
+      lines: ledger.lines,
+    },
+    depreciation: ledger.depreciation,
     categoryBreakdown,
     analysis: analysis
       ? {
@@ -1,9 +1,12 @@
 "use server";
 
 import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { generateJobNumber } from "@/lib/utils";
+import { jobLifecycle, isJobStatus, type JobStatus } from "@/lib/jobs/lifecycle";
+import { recordAudit } from "@/lib/audit/log";
 import { z } from "zod";
 
 const createJobSchema = z.object({
@@ -24,7 +27,7 @@ const createJobSchema = z.object({
  * Create a new job
  */
 export async function createJob(data: z.infer<typeof createJobSchema>) {
-  const organizationId = await getOrganizationId();
+  const { organizationId, userId } = await requirePermission("jobs:write");
   const validated = createJobSchema.parse(data);
   const jobNumber = generateJobNumber();
 
@@ -44,9 +47,20 @@ export async function createJob(data: z.infer<typeof createJobSchema>) {
       policyNumber: validated.policyNumber || null,
       claimNumber: validated.claimNumber || null,
       dateOfLoss: validated.dateOfLoss ? new Date(validated.dateOfLoss) : null,
+      statusHistory: {
+        create: { toStatus: "draft", changedById: userId },
+      },
     },
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: job.id,
+    action: "create",
+    after: job,
+  });
+
   revalidatePath("/jobs");
 
   return job;
@@ -59,7 +73,7 @@ export async function updateJob(
   jobId: string,
   data: Partial<z.infer<typeof createJobSchema>>
 ) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("jobs:write");
 
   // Verify job belongs to organization
   const existingJob = await prisma.job.findFirst({
@@ -94,6 +108,15 @@ export async function updateJob(
     data: updateData,
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: jobId,
+    action: "update",
+    before: existingJob,
+    after: job,
+  });
+
   revalidatePath(`/jobs/${jobId}`);
   revalidatePath("/jobs");
 
@@ -127,6 +150,16 @@ export async function getJob(jobId: string) {
       estimates: {
         orderBy: { createdAt: "desc" },
       },
+      discrepancies: {
+        orderBy: { dollarImpact: "desc" },
+      },
+      supplements: {
+        orderBy: { supplementNumber: "desc" },
+      },
+      statusHistory: {
+        orderBy: { createdAt: "desc" },
+        include: { changedBy: { select: { id: true, name: true, email: true } } },
+      },
     },
   });
 
@@ -184,13 +217,12 @@ export async function getJobs(options?: {
 }
 
 /**
- * Update job status
+ * Move a job to a new status, if the job's lifecycle allows it
  */
-export async function updateJobStatus(jobId: string, status: string) {
-  const organizationId = await getOrganizationId();
+export async function updateJobStatus(jobId: string, status: JobStatus, note?: string) {
+  const { organizationId, userId } = await requirePermission("jobs:write");
 
-  const validStatuses = ["draft", "analyzing", "ready", "in_progress", "completed"];
-  if (!validStatuses.includes(status)) {
+  if (!isJobStatus(status)) {
     throw new Error("Invalid status");
   }
 
@@ -205,9 +237,15 @@ export async function updateJobStatus(jobId: string, status: string) {
     throw new Error("Job not found");
   }
 
-  const job = await prisma.job.update({
-    where: { id: jobId },
-    data: { status },
+  const job = await jobLifecycle.transition(jobId, status, { actorId: userId, note });
+
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: jobId,
+    action: "status_change",
+    before: { status: existingJob.status },
+    after: { status },
   });
 
   revalidatePath(`/jobs/${jobId}`);
@@ -216,11 +254,31 @@ export async function updateJobStatus(jobId: string, status: string) {
   return job;
 }
 
+/**
+ * Get the statuses a job can move to next, and what blocks the rest
+ */
+export async function getJobTransitions(jobId: string) {
+  const organizationId = await getOrganizationId();
+
+  const job = await prisma.job.findFirst({
+    where: {
+      id: jobId,
+      organizationId,
+    },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  return jobLifecycle.availableTransitions(job);
+}
+
 /**
  * Delete a job
  */
 export async function deleteJob(jobId: string) {
-  const organizationId = await getOrganizationId();
+  const { organizationId } = await requirePermission("records:delete");
 
   const existingJob = await prisma.job.findFirst({
     where: {
@@ -237,6 +295,14 @@ export async function deleteJob(jobId: string) {
     where: { id: jobId },
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: jobId,
+    action: "delete",
+    before: existingJob,
+  });
+
   revalidatePath("/jobs");
 
   return { success: true };
@@ -248,26 +314,15 @@ export async function deleteJob(jobId: string) {
 export async function getJobStats() {
   const organizationId = await getOrganizationId();
 
-  const [total, draft, analyzing, ready, inProgress, completed] = await Promise.all([
-    prisma.job.count({
-      where: { organizationId },
-    }),
-    prisma.job.count({
-      where: { organizationId, status: "draft" },
-    }),
-    prisma.job.count({
-      where: { organizationId, status: "analyzing" },
-    }),
-    prisma.job.count({
-      where: { organizationId, status: "ready" },
-    }),
-    prisma.job.count({
-      where: { organizationId, status: "in_progress" },
-    }),
-    prisma.job.count({
-      where: { organizationId, status: "completed" },
-    }),
-  ]);
+  const statusCounts = await prisma.job.groupBy({
+    by: ["status"],
+    where: { organizationId },
+    _count: { _all: true },
+  });
+
+  const count = (status: JobStatus) =>
+    statusCounts.find((row) => row.status === status)?._count._all ?? 0;
+  const total = statusCounts.reduce((sum, row) => sum + row._count._all, 0);
 
   // Get total RCV this month
   const startOfMonth = new Date();
@@ -294,11 +349,17 @@ export async function getJobStats() {
   return {
     total,
     byStatus: {
-      draft,
-      analyzing,
-      ready,
-      inProgress,
-      completed,
+      draft: count("draft"),
+      analyzing: count("analyzing"),
+      ready: count("ready"),
+      supplementPending: count("supplement_pending"),
+      approved: count("approved"),
+      scheduled: count("scheduled"),
+      inProgress: count("in_progress"),
+      completed: count("completed"),
+      closed: count("closed"),
+      lost: count("lost"),
+      canceled: count("canceled"),
     },
     monthlyRCV,
     monthlyProfit,
@@ -0,0 +1,391 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { uploadToS3 } from "@/lib/s3/client";
+import { parsePriceSheet, priceListImporter, suggestColumnMapping } from "@/lib/pricing/price-import";
+import { supplierPricing } from "@/lib/pricing/supplier-prices";
+import { supplierOptimizer } from "@/lib/pricing/supplier-optimizer";
+import { recordAudit } from "@/lib/audit/log";
+import type { PricedItem } from "@/lib/pricing/calculator";
+import { z } from "zod";
+
+const columnMappingSchema = z.object({
+  sku: z.string().min(1),
+  price: z.string().min(1),
+  description: z.string().optional(),
+  unit: z.string().optional(),
+});
+
+const negotiatedPriceSchema = z.object({
+  productId: z.string().min(1),
+  supplier: z.string().min(1),
+  price: z.number().positive(),
+  sku: z.string().optional(),
+  branch: z.string().optional(),
+});
+
+/**
+ * Read a price sheet's columns and suggest which hold the SKU and price
+ */
+export async function readPriceListColumns(formData: FormData) {
+  await requirePermission("settings:write");
+
+  const file = formData.get("file") as File;
+  if (!file) {
+    throw new Error("No file provided");
+  }
+
+  const sheet = await parsePriceSheet(Buffer.from(await file.arrayBuffer()), file.name);
+
+  return {
+    headers: sheet.headers,
+    suggestedMapping: suggestColumnMapping(sheet.headers),
+    sampleRows: sheet.rows.slice(0, 5),
+    rowCount: sheet.rows.length,
+  };
+}
+
+/**
+ * Upload a supplier price sheet and preview its price changes
+ */
+export async function previewPriceList(formData: FormData) {
+  const { organizationId, userId } = await requirePermission("settings:write");
+
+  const file = formData.get("file") as File;
+  const supplier = formData.get("supplier") as string;
+  const effectiveDate = formData.get("effectiveDate") as string;
+  const mapping = formData.get("mapping") as string;
+  const branch = (formData.get("branch") as string | null) || undefined;
+
+  if (!file || !supplier || !mapping) {
+    throw new Error("Missing required fields");
+  }
+
+  const date = effectiveDate ? new Date(effectiveDate) : new Date();
+  if (isNaN(date.getTime())) {
+    throw new Error("Invalid effective date");
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const sheet = await parsePriceSheet(buffer, file.name);
+  const columnMapping = columnMappingSchema.parse(JSON.parse(mapping));
+
+  const s3Key = `${organizationId}/price-lists/${supplier}/${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+  await uploadToS3(buffer, s3Key, file.type || "application/octet-stream");
+
+  const priceImport = await priceListImporter.preview({
+    organizationId,
+    supplier,
+    branch,
+    fileName: file.name,
+    s3Key,
+    sheet,
+    mapping: columnMapping,
+    effectiveDate: date,
+    createdById: userId,
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "price_import",
+    entityId: priceImport.id,
+    action: "create",
+    after: priceImport,
+  });
+
+  revalidatePath("/settings");
+
+  return priceImport;
+}
+
+/**
+ * Apply a previewed price import to the organization's prices
+ */
+export async function applyPriceList(importId: string) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  const priceImport = await prisma.supplierPriceImport.findFirst({
+    where: { id: importId, organizationId },
+  });
+
+  if (!priceImport) {
+    throw new Error("Price import not found");
+  }
+
+  const result = await priceListImporter.apply(importId);
+
+  await recordAudit({
+    organizationId,
+    entityType: "price_import",
+    entityId: importId,
+    action: "apply",
+    before: { status: priceImport.status },
+    after: { status: "applied", ...result },
+  });
+
+  revalidatePath("/settings");
+
+  return result;
+}
+
+/**
+ * Discard a previewed price import
+ */
+export async function discardPriceList(importId: string) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  const priceImport = await prisma.supplierPriceImport.findFirst({
+    where: { id: importId, organizationId },
+  });
+
+  if (!priceImport) {
+    throw new Error("Price import not found");
+  }
+
+  const { count } = await prisma.supplierPriceImport.updateMany({
+    where: { id: importId, status: "previewed" },
+    data: { status: "discarded" },
+  });
+
+  if (count === 0) {
+    throw new Error("Price import has already been applied or discarded");
+  }
+
+  await recordAudit({
+    organizationId,
+    entityType: "price_import",
+    entityId: importId,
+    action: "discard",
+    before: { status: priceImport.status },
+    after: { status: "discarded" },
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+/**
+ * Get the organization's price imports, newest first
+ */
+export async function getPriceImports() {
+  const organizationId = await getOrganizationId();
+
+  return prisma.supplierPriceImport.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Get a product's price history by supplier, oldest first, for charting
+ */
+export async function getPriceHistory(productId: string, supplier?: string) {
+  const organizationId = await getOrganizationId();
+
+  // List prices plus this organization's own prices
+  const history = await prisma.productPriceHistory.findMany({
+    where: {
+      productId,
+      ...(supplier ? { supplier } : {}),
+      supplierPrice: {
+        OR: [{ supplierConfigId: null }, { supplierConfig: { organizationId } }],
+      },
+    },
+    include: { supplierPrice: { select: { supplierConfigId: true, branch: true } } },
+    orderBy: { effectiveDate: "asc" },
+  });
+
+  const series: Record<string, { date: Date; price: number }[]> = {};
+  for (const entry of history) {
+    const key = [
+      entry.supplier,
+      entry.supplierPrice.supplierConfigId ? "negotiated" : null,
+      entry.supplierPrice.branch,
+    ]
+      .filter(Boolean)
+      .join(" / ");
+
+    (series[key] ||= []).push({
+      date: entry.effectiveDate,
+      price: Number(entry.price),
+    });
+  }
+
+  return series;
+}
+
+/**
+ * Set the organization's negotiated price for a product with one of its suppliers
+ */
+export async function setNegotiatedPrice(data: z.infer<typeof negotiatedPriceSchema>) {
+  const { organizationId } = await requirePermission("settings:write");
+  const validated = negotiatedPriceSchema.parse(data);
+
+  const config = await prisma.supplierConfiguration.findUnique({
+    where: { organizationId_supplier: { organizationId, supplier: validated.supplier } },
+  });
+
+  if (!config) {
+    throw new Error("Supplier not configured");
+  }
+
+  const product = await prisma.productCatalog.findUnique({
+    where: { id: validated.productId },
+  });
+
+  if (!product) {
+    throw new Error("Product not found");
+  }
+
+  const key = {
+    productId: product.id,
+    supplier: config.supplier,
+    supplierConfigId: config.id,
+    branch: validated.branch || null,
+  };
+  const existing = await prisma.supplierPrice.findFirst({ where: key });
+
+  await supplierPricing.setPrice({
+    ...key,
+    sku: validated.sku || null,
+    price: validated.price,
+  });
+
+  const price = await prisma.supplierPrice.findFirstOrThrow({ where: key });
+  await recordAudit({
+    organizationId,
+    entityType: "supplier_price",
+    entityId: price.id,
+    action: existing ? "update" : "create",
+    before: existing,
+    after: price,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+/**
+ * Remove a negotiated price so the supplier's list price applies again
+ */
+export async function deleteNegotiatedPrice(supplierPriceId: string) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  const price = await prisma.supplierPrice.findFirst({
+    where: {
+      id: supplierPriceId,
+      supplierConfig: { organizationId },
+    },
+  });
+
+  if (!price) {
+    throw new Error("Price not found");
+  }
+
+  await prisma.supplierPrice.delete({ where: { id: supplierPriceId } });
+
+  await recordAudit({
+    organizationId,
+    entityType: "supplier_price",
+    entityId: supplierPriceId,
+    action: "delete",
+    before: price,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+/**
+ * Get the organization's negotiated prices
+ */
+export async function getNegotiatedPrices() {
+  const organizationId = await getOrganizationId();
+
+  return prisma.supplierPrice.findMany({
+    where: { supplierConfig: { organizationId } },
+    include: { product: { select: { id: true, name: true, sku: true } } },
+    orderBy: [{ supplier: "asc" }, { updatedAt: "desc" }],
+  });
+}
+
+/**
+ * Compare an estimate's supplier prices as of its price date with today's
+ */
+export async function getEstimatePriceMovement(estimateId: string) {
+  const organizationId = await getOrganizationId();
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  const items = (estimate.lineItems as unknown as PricedItem[]).filter(
+    (item) => item.productId && item.supplier && item.supplier !== "labor"
+  );
+  const productIds = [...new Set(items.map((item) => item.productId!))];
+
+  const [then, now] = await Promise.all([
+    supplierPricing.getQuotes(productIds, organizationId, estimate.priceDate || estimate.createdAt),
+    supplierPricing.getQuotes(productIds, organizationId),
+  ]);
+
+  const quotedPrice = (quotes: typeof then, item: PricedItem) =>
+    quotes.get(item.productId!)?.find((quote) => quote.supplier === item.supplier)?.price ?? null;
+
+  let totalChange = 0;
+  const movement = items.map((item) => {
+    const priceThen = quotedPrice(then, item);
+    const priceNow = quotedPrice(now, item);
+    const quantity = item.supplierQuantity ?? item.quantity;
+    const change = priceThen !== null && priceNow !== null ? priceNow - priceThen : null;
+
+    if (change !== null) totalChange += change * quantity;
+
+    return {
+      itemId: item.id,
+      description: item.description,
+      productName: item.productName,
+      supplier: item.supplier,
+      quantity,
+      priceThen,
+      priceNow,
+      change,
+      changePercent: change !== null && priceThen ? Math.round((change / priceThen) * 10000) / 100 : null,
+    };
+  });
+
+  return {
+    priceDate: estimate.priceDate,
+    items: movement,
+    totalChange: Math.round(totalChange * 100) / 100,
+  };
+}
+
+/**
+ * Build the cheapest delivered purchase plan for an estimate's materials
+ */
+export async function getPurchasePlan(estimateId: string) {
+  const organizationId = await getOrganizationId();
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  return supplierOptimizer.optimize(estimate.lineItems as unknown as PricedItem[], organizationId);
+}
@@ -0,0 +1,123 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { productMatcher } from "@/lib/pricing/product-matcher";
+import { recordAudit } from "@/lib/audit/log";
+
+/**
+ * Search the product catalog by name, SKU or manufacturer
+ */
+export async function searchProducts(query: string) {
+  await getOrganizationId();
+
+  const term = query.trim();
+  if (!term) return [];
+
+  return prisma.productCatalog.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { name: { contains: term, mode: "insensitive" } },
+        { manufacturer: { contains: term, mode: "insensitive" } },
+        { manufacturerSku: { contains: term, mode: "insensitive" } },
+      ],
+    },
+    orderBy: { name: "asc" },
+    take: 20,
+  });
+}
+
+/**
+ * Correct a line item's product match; the organization's future scopes with
+ * the same description will match the chosen product
+ */
+export async function correctProductMatch(lineItemId: string, productId: string) {
+  const { organizationId, userId } = await requirePermission("estimates:write");
+
+  const lineItem = await prisma.lineItem.findFirst({
+    where: {
+      id: lineItemId,
+      job: { organizationId },
+    },
+  });
+
+  if (!lineItem) {
+    throw new Error("Line item not found");
+  }
+
+  const product = await prisma.productCatalog.findFirst({
+    where: { id: productId, isActive: true },
+  });
+
+  if (!product) {
+    throw new Error("Product not found");
+  }
+
+  await productMatcher.learnAlias(organizationId, lineItem.description, product.id, userId);
+
+  const updated = await prisma.lineItem.update({
+    where: { id: lineItemId },
+    data: {
+      matchedProductId: product.id,
+      matchConfidence: 1,
+    },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "line_item",
+    entityId: lineItemId,
+    action: "correct_match",
+    before: lineItem,
+    after: updated,
+  });
+
+  revalidatePath(`/jobs/${lineItem.jobId}`);
+
+  return updated;
+}
+
+/**
+ * Get the organization's learned product aliases, most used first
+ */
+export async function getProductAliases() {
+  const organizationId = await getOrganizationId();
+
+  return prisma.productAlias.findMany({
+    where: { organizationId },
+    include: { product: { select: { id: true, name: true } } },
+    orderBy: { timesUsed: "desc" },
+  });
+}
+
+/**
+ * Forget a learned alias
+ */
+export async function deleteProductAlias(aliasId: string) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  const alias = await prisma.productAlias.findFirst({
+    where: { id: aliasId, organizationId },
+  });
+
+  if (!alias) {
+    throw new Error("Alias not found");
+  }
+
+  await prisma.productAlias.delete({ where: { id: aliasId } });
+
+  await recordAudit({
+    organizationId,
+    entityType: "product_alias",
+    entityId: aliasId,
+    action: "delete",
+    before: alias,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
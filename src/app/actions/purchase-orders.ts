@@ -0,0 +1,247 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { loadBranding } from "@/lib/pdf/branding";
+import { uploadToS3, generateDocumentKey, getSignedDownloadUrl } from "@/lib/s3/client";
+import {
+  purchaseOrderBuilder,
+  PURCHASE_ORDER_TRANSITIONS,
+  type PurchaseOrderStatus,
+} from "@/lib/purchasing/orders";
+import { purchaseOrderCsv, renderPurchaseOrderPdf } from "@/lib/purchasing/export";
+import { recordAudit } from "@/lib/audit/log";
+import type { Job, PurchaseOrder } from "@prisma/client";
+import { z } from "zod";
+
+const purchaseOrderOptionsSchema = z.object({
+  optimize: z.boolean().optional(),
+  deliveryDate: z.coerce.date().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * Create purchase orders from an accepted estimate, replacing its drafts
+ */
+export async function generatePurchaseOrders(
+  estimateId: string,
+  options?: z.input<typeof purchaseOrderOptionsSchema>
+) {
+  const { organizationId } = await requirePermission("purchasing:write");
+  const validated = purchaseOrderOptionsSchema.parse(options || {});
+
+  const estimate = await prisma.estimate.findFirst({
+    where: { id: estimateId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!estimate || estimate.job.organizationId !== organizationId) {
+    throw new Error("Estimate not found");
+  }
+
+  const result = await purchaseOrderBuilder.createFromEstimate(estimateId, validated);
+
+  for (const purchaseOrder of result.purchaseOrders) {
+    await recordAudit({
+      organizationId,
+      entityType: "purchase_order",
+      entityId: purchaseOrder.id,
+      action: "create",
+      after: purchaseOrder,
+    });
+  }
+
+  revalidatePath(`/jobs/${estimate.jobId}`);
+
+  return result;
+}
+
+/**
+ * Get purchase orders for a job
+ */
+export async function getJobPurchaseOrders(jobId: string) {
+  const organizationId = await getOrganizationId();
+
+  return prisma.purchaseOrder.findMany({
+    where: { jobId, organizationId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Update purchase order status as the supplier confirms and delivers
+ */
+export async function updatePurchaseOrderStatus(
+  purchaseOrderId: string,
+  status: PurchaseOrderStatus
+) {
+  const { organizationId } = await requirePermission("purchasing:write");
+
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, organizationId },
+  });
+
+  if (!purchaseOrder) {
+    throw new Error("Purchase order not found");
+  }
+
+  const allowed = PURCHASE_ORDER_TRANSITIONS[purchaseOrder.status as PurchaseOrderStatus] || [];
+  if (!allowed.includes(status)) {
+    throw new Error(`Cannot move a purchase order from ${purchaseOrder.status} to ${status}`);
+  }
+
+  const updateData: Record<string, unknown> = { status };
+  if (status === "sent") {
+    updateData.sentAt = new Date();
+  } else if (status === "confirmed") {
+    updateData.confirmedAt = new Date();
+  } else if (status === "delivered") {
+    updateData.deliveredAt = new Date();
+  }
+
+  // Fails if another change moved the order first
+  const { count } = await prisma.purchaseOrder.updateMany({
+    where: { id: purchaseOrderId, status: purchaseOrder.status },
+    data: updateData,
+  });
+
+  if (count === 0) {
+    throw new Error("Purchase order status changed while updating, try again");
+  }
+
+  const updated = await prisma.purchaseOrder.findUniqueOrThrow({
+    where: { id: purchaseOrderId },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "purchase_order",
+    entityId: purchaseOrderId,
+    action: "status_change",
+    before: purchaseOrder,
+    after: updated,
+  });
+
+  revalidatePath(`/jobs/${purchaseOrder.jobId}`);
+
+  return updated;
+}
+
+/**
+ * Delete a draft purchase order
+ */
+export async function deletePurchaseOrder(purchaseOrderId: string) {
+  const { organizationId } = await requirePermission("purchasing:write");
+
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, organizationId },
+  });
+
+  if (!purchaseOrder) {
+    throw new Error("Purchase order not found");
+  }
+
+  if (purchaseOrder.status !== "draft") {
+    throw new Error("Only draft purchase orders can be deleted");
+  }
+
+  await prisma.purchaseOrder.delete({ where: { id: purchaseOrderId } });
+
+  await recordAudit({
+    organizationId,
+    entityType: "purchase_order",
+    entityId: purchaseOrderId,
+    action: "delete",
+    before: purchaseOrder,
+  });
+
+  revalidatePath(`/jobs/${purchaseOrder.jobId}`);
+
+  return { success: true };
+}
+
+/**
+ * Export a purchase order as CSV
+ */
+export async function getPurchaseOrderCsv(purchaseOrderId: string) {
+  const organizationId = await getOrganizationId();
+
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, organizationId },
+  });
+
+  if (!purchaseOrder) {
+    throw new Error("Purchase order not found");
+  }
+
+  return {
+    fileName: `${purchaseOrder.poNumber}-${purchaseOrder.supplier}.csv`,
+    content: purchaseOrderCsv(purchaseOrder),
+  };
+}
+
+/**
+ * Get a signed download URL for a purchase order sheet. The first download
+ * renders it, which takes the permission to manage purchase orders.
+ */
+export async function getPurchaseOrderDownloadUrl(purchaseOrderId: string) {
+  const organizationId = await getOrganizationId();
+
+  const purchaseOrder = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, organizationId },
+    include: { job: true },
+  });
+
+  if (!purchaseOrder) {
+    throw new Error("Purchase order not found");
+  }
+
+  if (purchaseOrder.pdfS3Key) {
+    return getSignedDownloadUrl(purchaseOrder.pdfS3Key);
+  }
+
+  // Rendering the sheet for the first time is a write
+  await requirePermission("purchasing:write");
+  const pdfS3Key = await storePurchaseOrderPdf(purchaseOrder);
+
+  await recordAudit({
+    organizationId,
+    entityType: "purchase_order",
+    entityId: purchaseOrderId,
+    action: "generate_pdf",
+    before: { pdfS3Key: null },
+    after: { pdfS3Key },
+  });
+
+  return getSignedDownloadUrl(pdfS3Key);
+}
+
+/**
+ * Render, upload and record a purchase order sheet
+ */
+async function storePurchaseOrderPdf(purchaseOrder: PurchaseOrder & { job: Job }) {
+  const { job } = purchaseOrder;
+
+  const pdf = await renderPurchaseOrderPdf({
+    branding: await loadBranding(job.organizationId),
+    job,
+    purchaseOrder,
+  });
+
+  const key = generateDocumentKey(
+    job.organizationId,
+    job.id,
+    "purchase_order",
+    `${purchaseOrder.poNumber}-${purchaseOrder.supplier}.pdf`
+  );
+  await uploadToS3(pdf, key, "application/pdf");
+
+  await prisma.purchaseOrder.update({
+    where: { id: purchaseOrder.id },
+    data: { pdfS3Key: key },
+  });
+
+  return key;
+}
@@ -0,0 +1,113 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { reconciliationEngine } from "@/lib/reconciliation/engine";
+import { recordAudit } from "@/lib/audit/log";
+
+/**
+ * Reconcile a job's insurance scope against its aerial report
+ */
+export async function reconcileJob(jobId: string) {
+  const { organizationId } = await requirePermission("jobs:write");
+
+  const job = await prisma.job.findFirst({
+    where: {
+      id: jobId,
+      organizationId,
+    },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  const result = await reconciliationEngine.reconcileJob(jobId);
+
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: jobId,
+    action: "reconcile",
+    after: {
+      discrepancyCount: result.discrepancies.length,
+      totalDollarImpact: result.totalDollarImpact,
+    },
+  });
+
+  revalidatePath(`/jobs/${jobId}`);
+
+  return {
+    discrepancyCount: result.discrepancies.length,
+    totalDollarImpact: result.totalDollarImpact,
+  };
+}
+
+/**
+ * Get the discrepancy list for a job, largest dollar impact first
+ */
+export async function getDiscrepancies(jobId: string) {
+  const organizationId = await getOrganizationId();
+
+  const job = await prisma.job.findFirst({
+    where: {
+      id: jobId,
+      organizationId,
+    },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  const discrepancies = await prisma.discrepancy.findMany({
+    where: { jobId },
+  });
+
+  return discrepancies.sort(
+    (a, b) => Math.abs(Number(b.dollarImpact)) - Math.abs(Number(a.dollarImpact))
+  );
+}
+
+/**
+ * Mark a discrepancy as supplemented or dismissed, or reopen it
+ */
+export async function updateDiscrepancyStatus(discrepancyId: string, status: string) {
+  const { organizationId } = await requirePermission("jobs:write");
+
+  const validStatuses = ["open", "supplemented", "dismissed"];
+  if (!validStatuses.includes(status)) {
+    throw new Error("Invalid status");
+  }
+
+  const discrepancy = await prisma.discrepancy.findFirst({
+    where: {
+      id: discrepancyId,
+      job: { organizationId },
+    },
+  });
+
+  if (!discrepancy) {
+    throw new Error("Discrepancy not found");
+  }
+
+  const updated = await prisma.discrepancy.update({
+    where: { id: discrepancyId },
+    data: { status },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "discrepancy",
+    entityId: discrepancyId,
+    action: "status_change",
+    before: discrepancy,
+    after: updated,
+  });
+
+  revalidatePath(`/jobs/${discrepancy.jobId}`);
+
+  return updated;
+}
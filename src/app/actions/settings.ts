@@ -0,0 +1,372 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { getOcrProvider, listOcrProviders } from "@/lib/ocr/provider";
+import { uploadToS3, getSignedDownloadUrl } from "@/lib/s3/client";
+import { DEFAULT_LABOR_RATES } from "@/lib/pricing/labor";
+import { recordAudit } from "@/lib/audit/log";
+import { z } from "zod";
+
+/**
+ * Get OCR provider settings for the organization
+ */
+export async function getOcrSettings() {
+  const organizationId = await getOrganizationId();
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { ocrProvider: true },
+  });
+
+  return {
+    selected: organization?.ocrProvider ?? null,
+    default: process.env.OCR_PROVIDER || "mistral",
+    providers: listOcrProviders().map((provider) => ({
+      name: provider.name,
+      configured: provider.isConfigured(),
+    })),
+  };
+}
+
+/**
+ * Set the organization's preferred OCR provider (null to use the default)
+ */
+export async function updateOcrProvider(provider: string | null) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  if (provider !== null && !getOcrProvider(provider)) {
+    throw new Error("Invalid OCR provider");
+  }
+
+  const before = await prisma.organization.findUnique({ where: { id: organizationId } });
+  const organization = await prisma.organization.update({
+    where: { id: organizationId },
+    data: { ocrProvider: provider },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "organization",
+    entityId: organizationId,
+    action: "update",
+    before,
+    after: organization,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+const brandingSchema = z.object({
+  brandColor: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Brand color must be a hex color like #1d4ed8")
+    .optional()
+    .or(z.literal("")),
+  phone: z.string().optional(),
+  email: z.string().email().optional().or(z.literal("")),
+  website: z.string().optional(),
+  address: z.string().optional(),
+  licenseNumber: z.string().optional(),
+  estimateTerms: z.string().optional(),
+});
+
+/**
+ * Get branding used on generated PDFs
+ */
+export async function getBrandingSettings() {
+  const organizationId = await getOrganizationId();
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: {
+      name: true,
+      logoS3Key: true,
+      brandColor: true,
+      phone: true,
+      email: true,
+      website: true,
+      address: true,
+      licenseNumber: true,
+      estimateTerms: true,
+    },
+  });
+
+  if (!organization) {
+    throw new Error("Organization not found");
+  }
+
+  return {
+    ...organization,
+    logoUrl: organization.logoS3Key ? await getSignedDownloadUrl(organization.logoS3Key) : null,
+  };
+}
+
+/**
+ * Update branding details (empty strings clear a field)
+ */
+export async function updateBranding(data: z.infer<typeof brandingSchema>) {
+  const { organizationId } = await requirePermission("settings:write");
+  const validated = brandingSchema.parse(data);
+
+  const updateData: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(validated)) {
+    if (value !== undefined) updateData[field] = value || null;
+  }
+
+  const before = await prisma.organization.findUnique({ where: { id: organizationId } });
+  const organization = await prisma.organization.update({
+    where: { id: organizationId },
+    data: updateData,
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "organization",
+    entityId: organizationId,
+    action: "update",
+    before,
+    after: organization,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+/**
+ * Upload the organization logo (PNG or JPEG)
+ */
+export async function uploadLogo(formData: FormData) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  const file = formData.get("file") as File;
+
+  if (!file) {
+    throw new Error("Missing required fields");
+  }
+
+  if (file.type !== "image/png" && file.type !== "image/jpeg") {
+    throw new Error("Logo must be a PNG or JPEG image");
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const extension = file.type === "image/png" ? "png" : "jpg";
+  const key = `${organizationId}/branding/logo-${Date.now()}.${extension}`;
+
+  await uploadToS3(buffer, key, file.type);
+
+  const before = await prisma.organization.findUnique({ where: { id: organizationId } });
+  const organization = await prisma.organization.update({
+    where: { id: organizationId },
+    data: { logoS3Key: key },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "organization",
+    entityId: organizationId,
+    action: "update",
+    before,
+    after: organization,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+const supplierSchema = z.object({
+  supplier: z
+    .string()
+    .regex(/^[a-z0-9_]+$/, "Supplier must be a lowercase key like gulf_eagle"),
+  isEnabled: z.boolean().optional(),
+  accountNumber: z.string().optional(),
+  contactName: z.string().optional(),
+  contactEmail: z.string().email().optional().or(z.literal("")),
+  contactPhone: z.string().optional(),
+  branch: z.string().optional(),
+  deliveryFee: z.number().min(0).nullable().optional(),
+  freeDeliveryMinimum: z.number().min(0).nullable().optional(),
+  minimumOrder: z.number().min(0).nullable().optional(),
+});
+
+/**
+ * Get the organization's supplier configurations and purchasing limits
+ */
+export async function getSupplierSettings() {
+  const organizationId = await getOrganizationId();
+
+  const [organization, suppliers] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { maxSuppliersPerJob: true },
+    }),
+    prisma.supplierConfiguration.findMany({
+      where: { organizationId },
+      orderBy: { supplier: "asc" },
+    }),
+  ]);
+
+  return {
+    maxSuppliersPerJob: organization?.maxSuppliersPerJob ?? 2,
+    suppliers,
+  };
+}
+
+/**
+ * Add a supplier or update its account and ordering terms
+ */
+export async function saveSupplierConfiguration(data: z.infer<typeof supplierSchema>) {
+  const { organizationId } = await requirePermission("settings:write");
+  const { supplier, ...fields } = supplierSchema.parse(data);
+
+  const updateData: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== undefined) updateData[field] = value === "" ? null : value;
+  }
+
+  const where = { organizationId_supplier: { organizationId, supplier } };
+  const before = await prisma.supplierConfiguration.findUnique({ where });
+  const config = await prisma.supplierConfiguration.upsert({
+    where,
+    create: { organizationId, supplier, ...updateData },
+    update: updateData,
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "supplier_configuration",
+    entityId: config.id,
+    action: before ? "update" : "create",
+    before,
+    after: config,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+/**
+ * Set how many suppliers a job's order may be split across
+ */
+export async function updateMaxSuppliersPerJob(maxSuppliersPerJob: number) {
+  const { organizationId } = await requirePermission("settings:write");
+
+  if (!Number.isInteger(maxSuppliersPerJob) || maxSuppliersPerJob < 1) {
+    throw new Error("Max suppliers per job must be at least 1");
+  }
+
+  const before = await prisma.organization.findUnique({ where: { id: organizationId } });
+  const organization = await prisma.organization.update({
+    where: { id: organizationId },
+    data: { maxSuppliersPerJob },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "organization",
+    entityId: organizationId,
+    action: "update",
+    before,
+    after: organization,
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
+
+const LABOR_RATE_UNITS = {
+  install: "SQ",
+  tear_off: "SQ",
+  steep: "SQ",
+  high: "SQ",
+  flashing: "LF",
+  penetration: "EA",
+} as const;
+
+const laborRateSchema = z
+  .object({
+    type: z.enum(["install", "tear_off", "steep", "high", "flashing", "penetration"]),
+    rate: z.number().min(0),
+    minPitch: z.number().int().min(0).nullable().optional(),
+    maxPitch: z.number().int().min(1).nullable().optional(),
+    layer: z.number().int().min(1).nullable().optional(),
+    minStories: z.number().int().min(1).nullable().optional(),
+  })
+  .refine((rate) => rate.minPitch == null || rate.maxPitch == null || rate.minPitch < rate.maxPitch, {
+    message: "Pitch band must start below where it ends",
+  });
+
+/**
+ * Get the organization's labor rate table, or the defaults used until it has one
+ */
+export async function getLaborRates() {
+  const organizationId = await getOrganizationId();
+
+  const rates = await prisma.laborRate.findMany({
+    where: { organizationId },
+    orderBy: [{ type: "asc" }, { minPitch: "asc" }, { layer: "asc" }],
+  });
+
+  return {
+    isDefault: rates.length === 0,
+    rates: rates.length > 0
+      ? rates.map((rate) => ({ ...rate, rate: Number(rate.rate) }))
+      : DEFAULT_LABOR_RATES,
+  };
+}
+
+/**
+ * Replace the organization's labor rate table (an empty table restores the defaults)
+ */
+export async function saveLaborRates(data: z.infer<typeof laborRateSchema>[]) {
+  const { organizationId } = await requirePermission("settings:write");
+  const rates = z.array(laborRateSchema).parse(data).map((rate) => ({
+    type: rate.type,
+    unit: LABOR_RATE_UNITS[rate.type],
+    rate: rate.rate,
+    minPitch: rate.minPitch ?? null,
+    maxPitch: rate.maxPitch ?? null,
+    layer: rate.layer ?? null,
+    minStories: rate.minStories ?? null,
+  }));
+
+  const existing = await prisma.laborRate.findMany({ where: { organizationId } });
+
+  await prisma.$transaction([
+    prisma.laborRate.deleteMany({ where: { organizationId } }),
+    prisma.laborRate.createMany({
+      data: rates.map((rate) => ({ organizationId, ...rate })),
+    }),
+  ]);
+
+  await recordAudit({
+    organizationId,
+    entityType: "labor_rates",
+    entityId: organizationId,
+    action: "replace",
+    before: {
+      rates: existing.map((rate) => ({
+        type: rate.type,
+        unit: rate.unit,
+        rate: Number(rate.rate),
+        minPitch: rate.minPitch,
+        maxPitch: rate.maxPitch,
+        layer: rate.layer,
+        minStories: rate.minStories,
+      })),
+    },
+    after: { rates },
+  });
+
+  revalidatePath("/settings");
+
+  return { success: true };
+}
@@ -0,0 +1,164 @@
+"use server";
+
+import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { getSignedDownloadUrl } from "@/lib/s3/client";
+import {
+  supplementBuilder,
+  SUPPLEMENT_STATUSES,
+  SUPPLEMENT_TRANSITIONS,
+  type SupplementOptions,
+  type SupplementStatus,
+} from "@/lib/supplements/builder";
+import { recordAudit } from "@/lib/audit/log";
+import { z } from "zod";
+
+const supplementStatusSchema = z.object({
+  status: z.enum(SUPPLEMENT_STATUSES),
+  approvedAmount: z.number().nonnegative("Approved amount cannot be negative").optional(),
+});
+
+/**
+ * Draft the next supplement for a job
+ */
+export async function generateSupplement(jobId: string, options?: SupplementOptions) {
+  const { organizationId } = await requirePermission("estimates:write");
+
+  const job = await prisma.job.findFirst({
+    where: {
+      id: jobId,
+      organizationId,
+    },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  const supplement = await supplementBuilder.buildSupplement(jobId, options);
+
+  await recordAudit({
+    organizationId,
+    entityType: "supplement",
+    entityId: supplement.id,
+    action: "create",
+    after: supplement,
+  });
+
+  revalidatePath(`/jobs/${jobId}`);
+
+  return supplement;
+}
+
+/**
+ * Get supplements for a job
+ */
+export async function getJobSupplements(jobId: string) {
+  const organizationId = await getOrganizationId();
+
+  const job = await prisma.job.findFirst({
+    where: {
+      id: jobId,
+      organizationId,
+    },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  return prisma.supplement.findMany({
+    where: { jobId },
+    orderBy: { supplementNumber: "desc" },
+  });
+}
+
+/**
+ * Get a signed download URL for a supplement PDF
+ */
+export async function getSupplementDownloadUrl(supplementId: string) {
+  const organizationId = await getOrganizationId();
+
+  const supplement = await prisma.supplement.findFirst({
+    where: { id: supplementId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!supplement || supplement.job.organizationId !== organizationId) {
+    throw new Error("Supplement not found");
+  }
+
+  if (!supplement.pdfS3Key) {
+    throw new Error("Supplement PDF has not been generated");
+  }
+
+  return getSignedDownloadUrl(supplement.pdfS3Key);
+}
+
+/**
+ * Update supplement status as the carrier responds, with the RCV approved
+ * when the carrier approves less than was asked
+ */
+export async function updateSupplementStatus(
+  supplementId: string,
+  status: SupplementStatus,
+  approvedAmount?: number
+) {
+  const { organizationId } = await requirePermission("estimates:write");
+  const validated = supplementStatusSchema.parse({ status, approvedAmount });
+
+  const supplement = await prisma.supplement.findFirst({
+    where: { id: supplementId },
+    include: { job: { select: { organizationId: true } } },
+  });
+
+  if (!supplement || supplement.job.organizationId !== organizationId) {
+    throw new Error("Supplement not found");
+  }
+
+  const allowed = SUPPLEMENT_TRANSITIONS[supplement.status as SupplementStatus] || [];
+  if (!allowed.includes(validated.status)) {
+    throw new Error(`Cannot move a supplement from ${supplement.status} to ${validated.status}`);
+  }
+
+  if (validated.status === "partially_approved" && validated.approvedAmount === undefined) {
+    throw new Error("Enter the amount the carrier approved");
+  }
+
+  const updateData: Record<string, unknown> = { status: validated.status };
+  if (validated.status === "sent") {
+    updateData.sentAt = new Date();
+  }
+  if (validated.approvedAmount !== undefined) {
+    updateData.approvedAmount = validated.approvedAmount;
+  }
+
+  // Fails if another change moved the supplement first
+  const { count } = await prisma.supplement.updateMany({
+    where: { id: supplementId, status: supplement.status },
+    data: updateData,
+  });
+
+  if (count === 0) {
+    throw new Error("Supplement status changed while updating, try again");
+  }
+
+  const updated = await prisma.supplement.findUniqueOrThrow({
+    where: { id: supplementId },
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "supplement",
+    entityId: supplementId,
+    action: "status_change",
+    before: supplement,
+    after: updated,
+  });
+
+  revalidatePath(`/jobs/${supplement.jobId}`);
+
+  return updated;
+}
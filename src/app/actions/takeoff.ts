@@ -0,0 +1,49 @@
+"use server";
+
+import { requirePermission } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { materialTakeoff } from "@/lib/takeoff/material-takeoff";
+import { recordAudit } from "@/lib/audit/log";
+
+/**
+ * Generate a material takeoff from the job's latest aerial report
+ */
+export async function generateMaterialTakeoff(jobId: string) {
+  const { organizationId } = await requirePermission("jobs:write");
+
+  const job = await prisma.job.findFirst({
+    where: {
+      id: jobId,
+      organizationId,
+    },
+    include: {
+      aerialReports: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+    },
+  });
+
+  if (!job) {
+    throw new Error("Job not found");
+  }
+
+  if (job.aerialReports.length === 0) {
+    throw new Error("Aerial report not found");
+  }
+
+  const lineItems = await materialTakeoff.generateForReport(job.aerialReports[0].id);
+
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: jobId,
+    action: "generate_takeoff",
+    after: { aerialReportId: job.aerialReports[0].id, lineItemCount: lineItems.length },
+  });
+
+  revalidatePath(`/jobs/${jobId}`);
+
+  return lineItems;
+}
@@ -0,0 +1,229 @@
+"use server";
+
+import { can, getCurrentUser, requirePermission, ROLES, type Role } from "@/lib/permissions";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { assertSeatAvailable, getSeatUsage, teamInvitations } from "@/lib/team/invitations";
+import { recordAudit } from "@/lib/audit/log";
+import { z } from "zod";
+
+const inviteSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(ROLES as [Role, ...Role[]]).default("member"),
+});
+
+/**
+ * Get the organization's users, pending invitations and seat usage
+ */
+export async function getTeam() {
+  const current = await getCurrentUser();
+  const canManage = can(current.role, "users:manage");
+
+  const [members, invitations, seats] = await Promise.all([
+    prisma.user.findMany({
+      where: { organizationId: current.organizationId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        image: true,
+        role: true,
+        deactivatedAt: true,
+        createdAt: true,
+      },
+      orderBy: [{ deactivatedAt: { sort: "desc", nulls: "first" } }, { createdAt: "asc" }],
+    }),
+    canManage ? teamInvitations.list(current.organizationId) : [],
+    getSeatUsage(current.organizationId),
+  ]);
+
+  return {
+    members,
+    invitations,
+    seats,
+    currentUserId: current.userId,
+    canManage,
+    canManageOwners: can(current.role, "billing:manage"),
+  };
+}
+
+/**
+ * Invite someone to join the organization. Returns the invitation link to
+ * send them.
+ */
+export async function inviteTeamMember(data: z.input<typeof inviteSchema>) {
+  const { organizationId, userId, role } = await requirePermission("users:manage");
+  const validated = inviteSchema.parse(data);
+
+  if (validated.role === "owner" && !can(role, "billing:manage")) {
+    throw new Error("Only an owner can invite another owner");
+  }
+
+  const { token, expires } = await teamInvitations.invite({
+    organizationId,
+    email: validated.email,
+    role: validated.role,
+    invitedById: userId,
+  });
+
+  await recordAudit({
+    organizationId,
+    entityType: "invitation",
+    entityId: validated.email.toLowerCase(),
+    action: "create",
+    after: { email: validated.email.toLowerCase(), role: validated.role, expires },
+  });
+
+  revalidatePath("/team");
+
+  return {
+    inviteUrl: new URL(`/invite/${token}`, process.env.NEXTAUTH_URL || "http://localhost:3000").toString(),
+    expires,
+  };
+}
+
+/**
+ * Withdraw a pending invitation
+ */
+export async function revokeInvitation(email: string) {
+  const { organizationId } = await requirePermission("users:manage");
+
+  const revoked = await teamInvitations.revoke(organizationId, email);
+  if (!revoked) {
+    throw new Error("Invitation not found");
+  }
+
+  await recordAudit({
+    organizationId,
+    entityType: "invitation",
+    entityId: email.toLowerCase(),
+    action: "delete",
+    before: { email: email.toLowerCase() },
+  });
+
+  revalidatePath("/team");
+
+  return { success: true };
+}
+
+/**
+ * Change a user's role
+ */
+export async function updateUserRole(userId: string, role: Role) {
+  const current = await requirePermission("users:manage");
+
+  if (!ROLES.includes(role)) {
+    throw new Error("Invalid role");
+  }
+
+  const user = await findManageableUser(current, userId);
+
+  if (role === "owner" && !can(current.role, "billing:manage")) {
+    throw new Error("Only an owner can make someone an owner");
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { role },
+  });
+
+  await recordAudit({
+    organizationId: current.organizationId,
+    entityType: "user",
+    entityId: userId,
+    action: "update_role",
+    before: { role: user.role },
+    after: { role: updated.role },
+  });
+
+  revalidatePath("/team");
+
+  return { success: true };
+}
+
+/**
+ * Stop a user from signing in. Their jobs and history stay in place.
+ */
+export async function deactivateUser(userId: string) {
+  const current = await requirePermission("users:manage");
+  const user = await findManageableUser(current, userId);
+
+  if (user.deactivatedAt) {
+    return { success: true };
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { deactivatedAt: new Date() },
+  });
+
+  await recordAudit({
+    organizationId: current.organizationId,
+    entityType: "user",
+    entityId: userId,
+    action: "deactivate",
+    before: { deactivatedAt: user.deactivatedAt },
+    after: { deactivatedAt: updated.deactivatedAt },
+  });
+
+  revalidatePath("/team");
+
+  return { success: true };
+}
+
+/**
+ * Let a deactivated user sign in again, if the plan has a seat for them
+ */
+export async function reactivateUser(userId: string) {
+  const current = await requirePermission("users:manage");
+  const user = await findManageableUser(current, userId);
+
+  if (!user.deactivatedAt) {
+    return { success: true };
+  }
+
+  await assertSeatAvailable(current.organizationId);
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { deactivatedAt: null },
+  });
+
+  await recordAudit({
+    organizationId: current.organizationId,
+    entityType: "user",
+    entityId: userId,
+    action: "reactivate",
+    before: { deactivatedAt: user.deactivatedAt },
+    after: { deactivatedAt: updated.deactivatedAt },
+  });
+
+  revalidatePath("/team");
+
+  return { success: true };
+}
+
+/**
+ * A user in the organization the current user may change. Nobody changes
+ * their own account, and only owners change owners, so an organization
+ * always keeps at least one owner.
+ */
+async function findManageableUser(current: { userId: string; organizationId: string; role: Role }, userId: string) {
+  if (userId === current.userId) {
+    throw new Error("You can't change your own account");
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { id: userId, organizationId: current.organizationId },
+  });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (user.role === "owner" && !can(current.role, "billing:manage")) {
+    throw new Error("Only an owner can change another owner");
+  }
+
+  return user;
+}
@@ -1,18 +1,21 @@
 "use server";
 
-import { getOrganizationId } from "@/lib/get-session";
+import { requirePermission } from "@/lib/permissions";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { generateJobNumber } from "@/lib/utils";
 import { uploadToS3, generateDocumentKey } from "@/lib/s3/client";
-import { documentProcessor } from "@/lib/agentcore/pipeline/document-processor";
+import { taskQueue } from "@/lib/queue/task-queue";
+import { jobLifecycle } from "@/lib/jobs/lifecycle";
+import { recordAudit } from "@/lib/audit/log";
 
 /**
  * Create a job directly from an uploaded document
- * The document is processed and job details are extracted automatically
+ * The document is queued for processing and job details are filled in
+ * automatically once extraction completes
  */
 export async function createJobFromDocument(formData: FormData) {
-  const organizationId = await getOrganizationId();
+  const { organizationId, userId } = await requirePermission("jobs:write");
 
   const file = formData.get("file") as File;
   if (!file) {
@@ -23,7 +26,7 @@ export async function createJobFromDocument(formData: FormData) {
   const jobNumber = generateJobNumber();
 
   // Create a placeholder job with minimal info
-  // We'll update it after document processing
+  // The background task updates it after document processing
   const job = await prisma.job.create({
     data: {
       organizationId,
@@ -34,9 +37,20 @@ export async function createJobFromDocument(formData: FormData) {
       city: "Processing",
       state: "XX",
       zipCode: "00000",
+      statusHistory: {
+        create: { toStatus: "analyzing", changedById: userId },
+      },
     },
   });
 
+  await recordAudit({
+    organizationId,
+    entityType: "job",
+    entityId: job.id,
+    action: "create",
+    after: job,
+  });
+
   try {
     // Convert file to buffer
     const arrayBuffer = await file.arrayBuffer();
@@ -63,53 +77,20 @@ export async function createJobFromDocument(formData: FormData) {
         s3Bucket: uploadResult.bucket,
         mimeType: file.type,
         fileSize: buffer.length,
-        processingStatus: "processing",
+        processingStatus: "pending",
       },
     });
 
-    // Process the document and extract data
-    const extractedData = await documentProcessor.processDocument(document.id);
-
-    // Update job with extracted data if available
-    if (extractedData) {
-      const headerData = extractedData.headerData as Record<string, string> | null;
-
-      await prisma.job.update({
-        where: { id: job.id },
-        data: {
-          status: "ready",
-          customerName: headerData?.customerName || "Unknown Customer",
-          customerPhone: headerData?.customerPhone || null,
-          customerEmail: headerData?.customerEmail || null,
-          streetAddress: headerData?.streetAddress || "Address not extracted",
-          city: headerData?.city || "Unknown",
-          state: headerData?.state || "XX",
-          zipCode: headerData?.zipCode || "00000",
-          insuranceCompany: headerData?.insuranceCompany || null,
-          policyNumber: headerData?.policyNumber || null,
-          claimNumber: headerData?.claimNumber || null,
-          dateOfLoss: headerData?.dateOfLoss ? new Date(headerData.dateOfLoss) : null,
-          totalRCV: extractedData.financialSummary
-            ? (extractedData.financialSummary as Record<string, number>).totalRCV
-            : null,
-          totalACV: extractedData.financialSummary
-            ? (extractedData.financialSummary as Record<string, number>).totalACV
-            : null,
-          deductible: extractedData.financialSummary
-            ? (extractedData.financialSummary as Record<string, number>).deductible
-            : null,
-        },
-      });
-    } else {
-      // Mark as needing manual review
-      await prisma.job.update({
-        where: { id: job.id },
-        data: {
-          status: "draft",
-          customerName: "Manual Entry Required",
-        },
-      });
-    }
+    await recordAudit({
+      organizationId,
+      entityType: "document",
+      entityId: document.id,
+      action: "upload",
+      after: document,
+    });
+
+    // Queue processing; the worker populates the job from the extraction
+    await taskQueue.enqueueDocumentProcessing(document, { populateJob: true });
 
     revalidatePath("/jobs");
     revalidatePath("/dashboard");
@@ -120,21 +101,23 @@ export async function createJobFromDocument(formData: FormData) {
       success: true,
     };
   } catch (error) {
-    // If processing fails, keep the job but mark it for manual entry
+    // If the upload fails, keep the job but mark it for manual entry
     await prisma.job.update({
       where: { id: job.id },
-      data: {
-        status: "draft",
-        customerName: "Processing Failed - Manual Entry Required",
-      },
+      data: { customerName: "Processing Failed - Manual Entry Required" },
+    });
+    await jobLifecycle.transition(job.id, "draft", {
+      actorId: userId,
+      note: "Document upload failed",
+      ifStatus: "analyzing",
     });
 
-    console.error("Document processing error:", error);
+    console.error("Document upload error:", error);
 
     return {
       jobId: job.id,
       success: false,
-      error: error instanceof Error ? error.message : "Processing failed",
+      error: error instanceof Error ? error.message : "Upload failed",
     };
   }
 }
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuditLogCsv } from "@/app/actions/audit";
+
+/**
+ * Download the audit log as CSV, with the same filters as the audit view
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    const { fileName, content } = await getAuditLogCsv({
+      entityType: params.get("entityType") || undefined,
+      entityId: params.get("entityId") || undefined,
+      actorId: params.get("actorId") || undefined,
+      action: params.get("action") || undefined,
+      from: params.get("from") || undefined,
+      to: params.get("to") || undefined,
+    });
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Export failed";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { hashPassword } from "@/lib/password";
+import { teamInvitations } from "@/lib/team/invitations";
 import { z } from "zod";
 
-const registerSchema = z.object({
-  companyName: z.string().min(1, "Company name is required"),
-  name: z.string().min(1, "Name is required"),
-  email: z.string().email("Invalid email address"),
-  password: z.string().min(8, "Password must be at least 8 characters"),
-});
+const registerSchema = z
+  .object({
+    companyName: z.string().optional(),
+    name: z.string().min(1, "Name is required"),
+    email: z.string().email("Invalid email address"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    inviteToken: z.string().optional(), // Join the inviting organization instead of creating one
+  })
+  .refine((data) => data.inviteToken || data.companyName, {
+    message: "Company name is required",
+  });
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,8 +33,35 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Hash password
+    const passwordHash = await hashPassword(validated.password);
+
+    if (validated.inviteToken) {
+      let user;
+      try {
+        user = await teamInvitations.accept(validated.inviteToken, {
+          email: validated.email,
+          name: validated.name,
+          passwordHash,
+        });
+      } catch (error) {
+        // Expired, used, sent to another email, or no seats left
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : "Invalid invitation" },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: "Account created successfully",
+        userId: user.id,
+      });
+    }
+
     // Create organization
-    const slug = validated.companyName
+    const companyName = validated.companyName!;
+    const slug = companyName
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, "-")
       .replace(/(^-|-$)/g, "") +
@@ -37,15 +70,12 @@ export async function POST(request: NextRequest) {
 
     const organization = await prisma.organization.create({
       data: {
-        name: validated.companyName,
+        name: companyName,
         slug,
         subscriptionTier: "starter",
       },
     });
 
-    // Hash password
-    const passwordHash = await hashPassword(validated.password);
-
     // Create user
     const user = await prisma.user.create({
       data: {
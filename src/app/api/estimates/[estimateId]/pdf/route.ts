@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEstimateDownloadUrl } from "@/app/actions/estimates";
+
+/**
+ * Redirect to a signed download URL for an estimate PDF
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ estimateId: string }> }
+) {
+  const { estimateId } = await params;
+
+  try {
+    const url = await getEstimateDownloadUrl(estimateId);
+    return NextResponse.redirect(url);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Download failed";
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+}
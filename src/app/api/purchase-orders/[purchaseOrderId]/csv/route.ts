@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPurchaseOrderCsv } from "@/app/actions/purchase-orders";
+
+/**
+ * Download a purchase order as CSV
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ purchaseOrderId: string }> }
+) {
+  const { purchaseOrderId } = await params;
+
+  try {
+    const { fileName, content } = await getPurchaseOrderCsv(purchaseOrderId);
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName.replace(/[^a-zA-Z0-9.-]/g, "_")}"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Download failed";
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getPurchaseOrderDownloadUrl } from "@/app/actions/purchase-orders";
+
+/**
+ * Redirect to a signed download URL for a purchase order sheet
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ purchaseOrderId: string }> }
+) {
+  const { purchaseOrderId } = await params;
+
+  try {
+    const url = await getPurchaseOrderDownloadUrl(purchaseOrderId);
+    return NextResponse.redirect(url);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Download failed";
+    return NextResponse.json({ error: message }, { status: 404 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TaskWorker } from "@/lib/queue/worker";
+
+// Give document processing room to finish on serverless platforms
+export const maxDuration = 300;
+
+/**
+ * Drain a batch of background tasks. Intended to be hit by a scheduler (cron)
+ * on platforms where a long-running worker process is not available.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.TASK_WORKER_SECRET;
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: "Task worker secret not configured" },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const batchSize = Number(request.nextUrl.searchParams.get("batch")) || 1;
+
+  try {
+    const worker = new TaskWorker({ batchSize: Math.min(batchSize, 10) });
+    const summary = await worker.runOnce();
+    return NextResponse.json({ workerId: worker.workerId, ...summary });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Worker error";
+    console.error("Task worker run failed:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import type { NextAuthConfig } from "next-auth";
+
+/**
+ * Auth settings shared with the middleware. Kept free of the database and
+ * providers so it can run on the Edge runtime; src/auth.ts adds both.
+ */
+export const authConfig = {
+  session: {
+    strategy: "jwt",
+  },
+  pages: {
+    signIn: "/login",
+    error: "/auth/error",
+    newUser: "/onboarding",
+  },
+  providers: [],
+} satisfies NextAuthConfig;
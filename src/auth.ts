@@ -5,6 +5,8 @@ import Credentials from "next-auth/providers/credentials";
 import Cognito from "next-auth/providers/cognito";
 import Google from "next-auth/providers/google";
 import { prisma } from "@/lib/prisma";
+import { authConfig } from "@/auth.config";
+import { teamInvitations } from "@/lib/team/invitations";
 import { z } from "zod";
 
 const loginSchema = z.object({
@@ -55,7 +57,7 @@ providers.push(
         include: { organization: true },
       });
 
-      if (!user || !user.passwordHash) return null;
+      if (!user || !user.passwordHash || user.deactivatedAt) return null;
 
       // Dynamic import to avoid Edge Runtime issues
       const { verifyPassword } = await import("@/lib/password");
@@ -73,15 +75,8 @@ providers.push(
 );
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
+  ...authConfig,
   adapter: PrismaAdapter(prisma),
-  session: {
-    strategy: "jwt",
-  },
-  pages: {
-    signIn: "/login",
-    error: "/auth/error",
-    newUser: "/onboarding",
-  },
   providers,
   callbacks: {
     async jwt({ token, user, account }) {
@@ -133,13 +128,27 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       };
     },
     async signIn({ user, account }) {
-      // For OAuth providers, create organization if new user
+      // For OAuth providers, join an inviting organization or create one if new user
       if (account && account.provider !== "credentials" && user.email) {
         const existingUser = await prisma.user.findUnique({
           where: { email: user.email },
         });
 
-        if (!existingUser) {
+        if (existingUser?.deactivatedAt) {
+          return false;
+        }
+
+        const cognitoId = account.provider === "cognito" ? account.providerAccountId : null;
+        const invitedUser = existingUser
+          ? null
+          : await teamInvitations.acceptPending({
+              email: user.email,
+              name: user.name,
+              image: user.image,
+              cognitoId,
+            });
+
+        if (!existingUser && !invitedUser) {
           // Create new organization and user for OAuth signups
           const organization = await prisma.organization.create({
             data: {
@@ -156,7 +165,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
               image: user.image,
               organizationId: organization.id,
               role: "owner",
-              cognitoId: account.provider === "cognito" ? account.providerAccountId : null,
+              cognitoId,
             },
           });
         }
@@ -0,0 +1,146 @@
+/**
+ * Pipeline Checkpoints
+ *
+ * Persists the output of each document pipeline stage so a failed run resumes
+ * from the first incomplete stage, and a single stage group (e.g. extraction)
+ * can be re-run without repeating the expensive OCR step.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma, type ProcessingCheckpoint } from "@prisma/client";
+
+export type PipelineStage =
+  | "ocr"
+  | "classify"
+  | "extract_header"
+  | "extract_pipe_jacks"
+  | "extract_vents"
+  | "extract_materials"
+  | "extract_aerial"
+  | "validate"
+  | "store";
+
+export type PipelineStageGroup = "ocr" | "classification" | "extraction" | "validation" | "store";
+
+export type CheckpointStatus = "pending" | "running" | "completed" | "failed";
+
+/**
+ * Stages in execution order, grouped the way users re-run them
+ */
+export const STAGE_GROUPS: Record<PipelineStageGroup, PipelineStage[]> = {
+  ocr: ["ocr"],
+  classification: ["classify"],
+  extraction: [
+    "extract_header",
+    "extract_pipe_jacks",
+    "extract_vents",
+    "extract_materials",
+    "extract_aerial",
+  ],
+  validation: ["validate"],
+  store: ["store"],
+};
+
+export const GROUP_ORDER: PipelineStageGroup[] = [
+  "ocr",
+  "classification",
+  "extraction",
+  "validation",
+  "store",
+];
+
+/**
+ * Run a stage, reusing its checkpointed output if it already completed
+ */
+export async function runStage<T>(
+  documentId: string,
+  stage: PipelineStage,
+  fn: () => Promise<T>
+): Promise<T> {
+  const where = { documentId_stage: { documentId, stage } };
+
+  const existing = await prisma.processingCheckpoint.findUnique({ where });
+  if (existing?.status === "completed") {
+    return existing.output as T;
+  }
+
+  const startedAt = new Date();
+
+  await prisma.processingCheckpoint.upsert({
+    where,
+    create: { documentId, stage, status: "running", attempts: 1, startedAt },
+    update: { status: "running", attempts: { increment: 1 }, startedAt, error: null },
+  });
+
+  try {
+    const output = await fn();
+
+    await prisma.processingCheckpoint.update({
+      where,
+      data: {
+        status: "completed",
+        output: output === undefined || output === null
+          ? Prisma.JsonNull
+          : (output as Prisma.InputJsonValue),
+        completedAt: new Date(),
+        durationMs: Date.now() - startedAt.getTime(),
+      },
+    });
+
+    return output;
+  } catch (error) {
+    await prisma.processingCheckpoint.update({
+      where,
+      data: {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        durationMs: Date.now() - startedAt.getTime(),
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Invalidate a stage group and every group after it, so the next run
+ * recomputes them while reusing the earlier checkpoints
+ */
+export async function resetStages(
+  documentId: string,
+  fromGroup: PipelineStageGroup
+): Promise<void> {
+  const start = GROUP_ORDER.indexOf(fromGroup);
+  if (start === -1) {
+    throw new Error(`Unknown pipeline stage "${fromGroup}"`);
+  }
+
+  const groups = GROUP_ORDER.slice(start);
+  const stages = groups.flatMap((group) => STAGE_GROUPS[group]);
+
+  await prisma.processingCheckpoint.updateMany({
+    where: { documentId, stage: { in: stages } },
+    data: {
+      status: "pending",
+      output: Prisma.DbNull,
+      error: null,
+      completedAt: null,
+    },
+  });
+}
+
+/**
+ * Get checkpoints for a document in pipeline order
+ */
+export async function getCheckpoints(documentId: string): Promise<ProcessingCheckpoint[]> {
+  const checkpoints = await prisma.processingCheckpoint.findMany({
+    where: { documentId },
+  });
+
+  const order = GROUP_ORDER.flatMap((group) => STAGE_GROUPS[group]);
+
+  return checkpoints.sort(
+    (a, b) =>
+      order.indexOf(a.stage as PipelineStage) - order.indexOf(b.stage as PipelineStage)
+  );
+}
@@ -3,6 +3,8 @@
  *
  * Orchestrates the multi-stage document processing workflow:
  * Upload → Classify → OCR → Extract → Validate → Store
+ *
+ * Each stage is checkpointed, so a failed run resumes from the stage that failed.
  */
 
 import { prisma } from "@/lib/prisma";
@@ -10,7 +12,19 @@ import { downloadFromS3 } from "@/lib/s3/client";
 import { agentCore } from "@/lib/agentcore/client";
 import { extractPipeJacks, type PipeJackResult } from "@/lib/agentcore/tools/pipe-jack-extractor";
 import { extractVents, type VentResult } from "@/lib/agentcore/tools/vent-extractor";
+import { runStage } from "./checkpoints";
+import { findPageForText, getPageAtOffset } from "./pages";
+import {
+  parseLineItems,
+  parseScopeTotals,
+  type ScopeFormat,
+  type ScopeTotals,
+} from "@/lib/agentcore/tools/line-item-parser";
+import { isRemovalLine } from "@/lib/roofing/roof";
+import { recognizeDocument, type OcrResult } from "@/lib/ocr/recognize";
+import { auditLogger } from "@/lib/audit/log";
 import { BedrockRuntimeClient, ConverseCommand } from "@aws-sdk/client-bedrock-runtime";
+import type { Job } from "@prisma/client";
 
 const bedrockClient = new BedrockRuntimeClient({
   region: process.env.AWS_REGION || "us-east-1",
@@ -60,6 +74,7 @@ export interface InsuranceExtraction {
     deductible?: number;
   };
   lineItems: InsuranceLineItem[];
+  lineItemReport: LineItemReport;
   confidenceScores: {
     header: number;
     pipeJacks: number;
@@ -95,13 +110,28 @@ export interface MaterialItem {
 }
 
 export interface InsuranceLineItem {
+  lineNumber?: number;
   category: string;
   description: string;
   quantity: number;
   unit: string;
+  unitPrice?: number;
+  tax?: number;
+  overheadProfit?: number;
   rcv: number;
   acv?: number;
   depreciation?: number;
+  depreciationRecoverable?: boolean;
+  page?: number | null; // Source page in the OCR'd document
+  extractedBy?: "parser" | "llm";
+}
+
+export interface LineItemReport {
+  format: ScopeFormat | null;
+  parserCount: number;
+  llmCount: number;
+  unparsedRows: string[]; // Rows the parser handed to the LLM
+  rows: { lineNumber?: number; description: string; source: "parser" | "llm" }[];
 }
 
 export interface ValidationResult {
@@ -113,13 +143,23 @@ export interface ValidationResult {
 
 export class DocumentProcessor {
   /**
-   * Process a document through the full pipeline
+   * Process a document through the full pipeline. An aborted signal stops the
+   * run before its next step and throws instead of marking the document
+   * failed, since whoever aborted it owns the document now.
    */
-  async processDocument(documentId: string): Promise<ProcessingResult> {
+  async processDocument(
+    documentId: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<ProcessingResult> {
+    const { signal } = options;
+
     // Fetch document
     const document = await prisma.document.findUnique({
       where: { id: documentId },
-      include: { job: true },
+      include: {
+        job: true,
+        organization: { select: { ocrProvider: true } },
+      },
     });
 
     if (!document) {
@@ -134,59 +174,83 @@ export class DocumentProcessor {
 
     try {
       // Step 1: Download and OCR
-      const fileBuffer = await downloadFromS3(document.s3Key);
-      const ocrResult = await this.performOCR(fileBuffer, document.mimeType || "application/pdf");
+      const ocrResult = await runStage(documentId, "ocr", async () => {
+        const fileBuffer = await downloadFromS3(document.s3Key);
+        const result = await recognizeDocument(fileBuffer, document.mimeType || "application/pdf", {
+          provider: document.organization.ocrProvider,
+        });
+
+        // Store OCR result
+        await prisma.document.update({
+          where: { id: documentId },
+          data: {
+            ocrText: result.text,
+            ocrPageIndex: result.pageIndex as object,
+            pageCount: result.pages.length,
+            ocrProvider: result.provider,
+            ocrConfidence: result.confidence,
+          },
+        });
 
-      // Store OCR result
-      await prisma.document.update({
-        where: { id: documentId },
-        data: {
-          ocrText: ocrResult.text,
-          ocrProvider: ocrResult.provider,
-          ocrConfidence: ocrResult.confidence,
-        },
+        return result;
       });
 
       // Step 2: Classify document
-      const classification = await this.classifyDocument(ocrResult.text);
+      signal?.throwIfAborted();
+      const classification = await runStage(documentId, "classify", async () => {
+        const result = await this.classifyDocument(ocrResult.text);
 
-      await prisma.document.update({
-        where: { id: documentId },
-        data: { type: classification.type, subType: classification.subType },
+        await prisma.document.update({
+          where: { id: documentId },
+          data: { type: result.type, subType: result.subType },
+        });
+
+        return result;
       });
 
       // Step 3: Extract based on document type
       let extraction: InsuranceExtraction | AerialExtraction;
       let validation: ValidationResult;
 
+      signal?.throwIfAborted();
       if (classification.type === "insurance_scope" || classification.type === "supplement") {
-        extraction = await this.extractInsuranceData(ocrResult.text, document);
-        validation = await this.validateInsuranceExtraction(extraction as InsuranceExtraction);
+        const insurance = await this.extractInsuranceData(documentId, ocrResult, document);
+        extraction = insurance;
+        signal?.throwIfAborted();
+        validation = await runStage(documentId, "validate", () =>
+          this.validateInsuranceExtraction(insurance)
+        );
 
         // Store insurance analysis
-        await this.storeInsuranceAnalysis(document.jobId, documentId, extraction as InsuranceExtraction);
+        signal?.throwIfAborted();
+        await runStage(documentId, "store", async () => {
+          await this.storeInsuranceAnalysis(document.job, documentId, insurance);
+          await this.storeDocumentResults(document.organizationId, documentId, insurance, validation);
+          return { storedAt: new Date().toISOString() };
+        });
       } else if (classification.type === "aerial_report") {
-        extraction = await this.extractAerialData(ocrResult.text, classification.subType);
-        validation = await this.validateAerialExtraction(extraction as AerialExtraction);
+        const aerial = await runStage(documentId, "extract_aerial", () =>
+          this.extractAerialData(ocrResult.text, classification.subType)
+        );
+        extraction = aerial;
+        signal?.throwIfAborted();
+        validation = await runStage(documentId, "validate", () =>
+          this.validateAerialExtraction(aerial)
+        );
 
         // Store aerial report
-        await this.storeAerialReport(document.jobId, documentId, extraction as AerialExtraction);
+        signal?.throwIfAborted();
+        await runStage(documentId, "store", async () => {
+          await this.storeAerialReport(document.job, documentId, aerial);
+          await this.storeDocumentResults(document.organizationId, documentId, aerial, validation);
+          return { storedAt: new Date().toISOString() };
+        });
       } else {
         extraction = {} as InsuranceExtraction;
         validation = { isValid: true, errors: [], warnings: [], suggestions: [] };
+        await this.storeDocumentResults(document.organizationId, documentId, extraction, validation);
       }
 
-      // Step 4: Update document with results
-      await prisma.document.update({
-        where: { id: documentId },
-        data: {
-          processingStatus: "completed",
-          processedAt: new Date(),
-          extractedData: extraction as object,
-          validationErrors: validation.errors.length > 0 ? (validation as object) : undefined,
-        },
-      });
-
       return {
         success: true,
         documentId,
@@ -195,6 +259,8 @@ export class DocumentProcessor {
         validation,
       };
     } catch (error) {
+      if (signal?.aborted) throw error;
+
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
       await prisma.document.update({
@@ -209,78 +275,6 @@ export class DocumentProcessor {
     }
   }
 
-  /**
-   * Perform OCR on document
-   */
-  private async performOCR(
-    fileBuffer: Buffer,
-    mimeType: string
-  ): Promise<{ text: string; provider: string; confidence: number }> {
-    // Use Mistral OCR for PDFs
-    if (mimeType === "application/pdf" || mimeType.startsWith("image/")) {
-      return await this.mistralOCR(fileBuffer, mimeType);
-    }
-
-    // For text files, just read directly
-    return {
-      text: fileBuffer.toString("utf-8"),
-      provider: "direct",
-      confidence: 1.0,
-    };
-  }
-
-  /**
-   * Mistral OCR implementation
-   */
-  private async mistralOCR(
-    fileBuffer: Buffer,
-    mimeType: string
-  ): Promise<{ text: string; provider: string; confidence: number }> {
-    const base64Content = fileBuffer.toString("base64");
-
-    const response = await fetch("https://api.mistral.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.MISTRAL_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "pixtral-large-latest",
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Extract all text from this document. Preserve the structure and formatting as much as possible. Include all numbers, measurements, and line items.",
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Content}`,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 16384,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Mistral OCR failed: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const text = data.choices?.[0]?.message?.content || "";
-
-    return {
-      text,
-      provider: "mistral",
-      confidence: 0.9,
-    };
-  }
-
   /**
    * Classify document type
    */
@@ -336,18 +330,29 @@ OUTPUT JSON ONLY:
    * Extract insurance data using specialized extractors
    */
   private async extractInsuranceData(
-    ocrText: string,
+    documentId: string,
+    ocr: Pick<OcrResult, "text" | "pageIndex">,
     document: { jobId: string }
   ): Promise<InsuranceExtraction> {
-    // Extract in parallel for speed
-    const [headerData, pipeJacks, vents, materialsAndFinancials] = await Promise.all([
-      this.extractHeaderData(ocrText),
-      extractPipeJacks(ocrText),
-      extractVents(ocrText),
-      this.extractMaterialsAndFinancials(ocrText),
+    const ocrText = ocr.text;
+
+    // Extract in parallel for speed; each extractor is checkpointed on its own
+    // so a failure in one does not discard the others
+    const [headerData, pipeJacks, vents, materialsAndFinancials] = await allSettledOrThrow([
+      runStage(documentId, "extract_header", () => this.extractHeaderData(ocrText)),
+      runStage(documentId, "extract_pipe_jacks", () => extractPipeJacks(ocrText)),
+      runStage(documentId, "extract_vents", () => extractVents(ocrText)),
+      runStage(documentId, "extract_materials", () => this.extractScopeLineItems(ocr)),
     ]);
 
-    const { materials, financialSummary, lineItems } = materialsAndFinancials;
+    const { materials, financialSummary, lineItemReport } = materialsAndFinancials;
+
+    // Cite the source page for each line item, locating it in the text when
+    // the model did not report one
+    const lineItems = materialsAndFinancials.lineItems.map((item) => ({
+      ...item,
+      page: item.page ?? findPageForText(ocr.text, ocr.pageIndex, item.description),
+    }));
 
     // Calculate overall confidence
     const overallConfidence =
@@ -365,6 +370,7 @@ OUTPUT JSON ONLY:
       materials,
       financialSummary: financialSummary.data,
       lineItems,
+      lineItemReport,
       confidenceScores: {
         header: headerData.confidence,
         pipeJacks: pipeJacks.confidence,
@@ -437,7 +443,105 @@ OUTPUT JSON:
   }
 
   /**
-   * Extract materials and financial summary
+   * Extract line items, materials and financial summary. Xactimate/Symbility
+   * rows and summary totals are read by the rule-based parser, and materials
+   * are derived from the rows; the LLM only handles the rows the parser could
+   * not reconcile, or the whole scope for unrecognized formats.
+   */
+  private async extractScopeLineItems(ocr: Pick<OcrResult, "text" | "pageIndex">): Promise<{
+    materials: MaterialItem[];
+    financialSummary: { data: InsuranceExtraction["financialSummary"]; confidence: number };
+    lineItems: InsuranceLineItem[];
+    lineItemReport: LineItemReport;
+  }> {
+    const parsed = parseLineItems(ocr.text);
+    const useParser = parsed.items.length > 0;
+
+    // Unrecognized format - the LLM reads the whole scope
+    const aiResult = useParser ? null : await this.extractMaterialsAndFinancials(ocr.text);
+
+    const llmItems = aiResult
+      ? aiResult.lineItems
+      : parsed.unparsed.length > 0
+        ? await this.extractLineItemsFromRows(parsed.unparsed.map((row) => row.text))
+        : [];
+
+    const parserItems: InsuranceLineItem[] = parsed.items.map(({ offset, ...item }) => ({
+      ...item,
+      page: getPageAtOffset(ocr.pageIndex, offset),
+      extractedBy: "parser",
+    }));
+
+    const lineItems = [
+      ...parserItems,
+      ...llmItems.map((item) => ({ ...item, extractedBy: "llm" as const })),
+    ];
+
+    return {
+      materials: aiResult ? aiResult.materials : materialsFromLineItems(lineItems),
+      financialSummary: aiResult
+        ? aiResult.financialSummary
+        : summarizeFinancials(lineItems, parseScopeTotals(ocr.text)),
+      lineItems,
+      lineItemReport: {
+        format: parsed.format,
+        parserCount: parserItems.length,
+        llmCount: llmItems.length,
+        unparsedRows: useParser ? parsed.unparsed.map((row) => row.text) : [],
+        rows: lineItems.map((item) => ({
+          lineNumber: item.lineNumber,
+          description: item.description,
+          source: item.extractedBy!,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Extract line items from rows the rule-based parser could not read
+   */
+  private async extractLineItemsFromRows(rows: string[]): Promise<InsuranceLineItem[]> {
+    const systemPrompt = `These rows from a roofing insurance scope could not be parsed automatically, usually because of OCR errors.
+Extract one line item per row that describes work or materials. Skip rows that are not line items (totals, headers).
+
+Categories: roof, gutters, siding, windows, interior, other
+
+OUTPUT JSON:
+{
+  "lineItems": [
+    {"lineNumber": <number or null>, "category": "<string>", "description": "<string>", "quantity": <number>, "unit": "<string>", "unitPrice": <number or null>, "rcv": <number>, "acv": <number or null>, "depreciation": <number or null>, "depreciationRecoverable": <true if shown in (parentheses), false if in <angle brackets>, null if unclear>}
+  ]
+}`;
+
+    const command = new ConverseCommand({
+      modelId: "anthropic.claude-sonnet-4-20250514",
+      system: [{ text: systemPrompt }],
+      messages: [{ role: "user", content: [{ text: rows.join("\n") }] }],
+      inferenceConfig: { maxTokens: 4096, temperature: 0.1 },
+    });
+
+    const response = await bedrockClient.send(command);
+
+    let content = "";
+    if (response.output?.message?.content) {
+      for (const block of response.output.message.content) {
+        if ("text" in block && block.text) {
+          content += block.text;
+        }
+      }
+    }
+
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]).lineItems || [];
+    }
+
+    return [];
+  }
+
+  /**
+   * Extract line items, materials and financial summary from a scope the
+   * parser does not recognize
    */
   private async extractMaterialsAndFinancials(ocrText: string): Promise<{
     materials: MaterialItem[];
@@ -448,6 +552,8 @@ OUTPUT JSON:
 
 Categories: roof, gutters, siding, windows, interior, other
 
+The text is split into pages with markers like "=== PAGE 3 OF 20 ===". Report the page number each line item appears on.
+
 OUTPUT JSON:
 {
   "materials": [
@@ -463,7 +569,7 @@ OUTPUT JSON:
     "deductible": <number or null>
   },
   "lineItems": [
-    {"category": "<string>", "description": "<string>", "quantity": <number>, "unit": "<string>", "rcv": <number>, "acv": <number or null>, "depreciation": <number or null>}
+    {"category": "<string>", "description": "<string>", "quantity": <number>, "unit": "<string>", "rcv": <number>, "acv": <number or null>, "depreciation": <number or null>, "depreciationRecoverable": <true if shown in (parentheses), false if in <angle brackets>, null if unclear>, "page": <number or null>}
   ],
   "confidence": <0-1>
 }`;
@@ -596,6 +702,13 @@ OUTPUT JSON:
       warnings.push(...extraction.ventilation.validationNotes);
     }
 
+    // Flag line items the rule-based parser could not reconcile
+    if (extraction.lineItemReport?.format && extraction.lineItemReport.llmCount > 0) {
+      warnings.push(
+        `${extraction.lineItemReport.llmCount} of ${extraction.lineItems.length} line items were read by AI instead of the ${extraction.lineItemReport.format} parser - verify their amounts`
+      );
+    }
+
     // Check confidence scores
     if (extraction.confidenceScores.overall < 0.7) {
       warnings.push(
@@ -636,11 +749,17 @@ OUTPUT JSON:
    * Store insurance analysis in database
    */
   private async storeInsuranceAnalysis(
-    jobId: string,
+    job: Job,
     documentId: string,
     extraction: InsuranceExtraction
   ): Promise<void> {
-    await prisma.insuranceAnalysis.create({
+    const jobId = job.id;
+
+    // Replace results from any previous run of this document
+    await prisma.insuranceAnalysis.deleteMany({ where: { documentId } });
+    const replaced = await prisma.lineItem.deleteMany({ where: { documentId, source: "insurance" } });
+
+    const analysis = await prisma.insuranceAnalysis.create({
       data: {
         jobId,
         documentId,
@@ -656,7 +775,7 @@ OUTPUT JSON:
     });
 
     // Update job with financial summary
-    await prisma.job.update({
+    const updatedJob = await prisma.job.update({
       where: { id: jobId },
       data: {
         totalRCV: extraction.financialSummary.totalRCV,
@@ -673,30 +792,103 @@ OUTPUT JSON:
       await prisma.lineItem.createMany({
         data: extraction.lineItems.map((item) => ({
           jobId,
+          documentId,
           source: "insurance",
           category: item.category,
           description: item.description,
+          lineNumber: item.lineNumber ?? null,
           quantity: item.quantity,
           unit: item.unit,
+          unitPrice: item.unitPrice ?? null,
+          tax: item.tax ?? null,
+          overheadProfit: item.overheadProfit ?? null,
           rcv: item.rcv,
           acv: item.acv,
           depreciation: item.depreciation,
+          depreciationRecoverable: item.depreciationRecoverable ?? null,
+          sourcePage: item.page ?? null,
+          extractionMethod: item.extractedBy ?? null,
         })),
       });
     }
+
+    const audit = { organizationId: job.organizationId, actorId: null };
+    await auditLogger.record({
+      ...audit,
+      entityType: "insurance_analysis",
+      entityId: analysis.id,
+      action: "create",
+      after: analysis,
+    });
+    await auditLogger.record({
+      ...audit,
+      entityType: "job",
+      entityId: jobId,
+      action: "update",
+      before: job,
+      after: updatedJob,
+    });
+    await auditLogger.record({
+      ...audit,
+      entityType: "document",
+      entityId: documentId,
+      action: "store_line_items",
+      before: { lineItemCount: replaced.count },
+      after: {
+        lineItemCount: extraction.lineItems.length,
+        lineItemRCV: extraction.lineItems.reduce((sum, item) => sum + (item.rcv || 0), 0),
+      },
+    });
+  }
+
+  /**
+   * Mark document as completed with its extraction and validation results
+   */
+  private async storeDocumentResults(
+    organizationId: string,
+    documentId: string,
+    extraction: InsuranceExtraction | AerialExtraction,
+    validation: ValidationResult
+  ): Promise<void> {
+    const document = await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        processingStatus: "completed",
+        processingError: null,
+        processedAt: new Date(),
+        extractedData: extraction as object,
+        validationErrors: validation.errors.length > 0 ? (validation as object) : undefined,
+      },
+    });
+
+    await auditLogger.record({
+      organizationId,
+      actorId: null,
+      entityType: "document",
+      entityId: documentId,
+      action: "processed",
+      after: {
+        type: document.type,
+        processingStatus: document.processingStatus,
+        validationErrors: validation.errors,
+      },
+    });
   }
 
   /**
    * Store aerial report in database
    */
   private async storeAerialReport(
-    jobId: string,
+    job: Job,
     documentId: string,
     extraction: AerialExtraction
   ): Promise<void> {
-    await prisma.aerialReport.create({
+    // Replace results from any previous run of this document
+    await prisma.aerialReport.deleteMany({ where: { documentId } });
+
+    const report = await prisma.aerialReport.create({
       data: {
-        jobId,
+        jobId: job.id,
         documentId,
         provider: extraction.provider,
         reportId: extraction.reportId,
@@ -713,8 +905,89 @@ OUTPUT JSON:
         roofComplexity: extraction.roofComplexity,
       },
     });
+
+    await auditLogger.record({
+      organizationId: job.organizationId,
+      actorId: null,
+      entityType: "aerial_report",
+      entityId: report.id,
+      action: "create",
+      after: report,
+    });
   }
 }
 
+// Units billed for time rather than material
+const LABOR_UNITS = new Set(["HR", "DA", "WK", "MO"]);
+
+/**
+ * Materials called for by a scope's line items, leaving out removal and
+ * time-based lines
+ */
+function materialsFromLineItems(lineItems: InsuranceLineItem[]): MaterialItem[] {
+  return lineItems
+    .filter((item) => !isRemovalLine(item.description) && !LABOR_UNITS.has(item.unit.toUpperCase()))
+    .map((item) => ({
+      category: item.category,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit.toUpperCase(),
+    }));
+}
+
+/**
+ * Claim totals from the scope's summary block, falling back to the sum of its
+ * line items. Confidence is highest when the two agree.
+ */
+function summarizeFinancials(
+  lineItems: InsuranceLineItem[],
+  totals: ScopeTotals
+): { data: InsuranceExtraction["financialSummary"]; confidence: number } {
+  const sum = (items: InsuranceLineItem[], value: (item: InsuranceLineItem) => number) =>
+    Math.round(items.reduce((total, item) => total + value(item), 0) * 100) / 100;
+  const rcv = (item: InsuranceLineItem) => item.rcv || 0;
+  const acv = (item: InsuranceLineItem) => item.acv ?? (item.rcv || 0) - (item.depreciation || 0);
+
+  const roof = lineItems.filter((item) => item.category === "roof");
+  const gutters = lineItems.filter((item) => item.category === "gutters");
+  const itemizedRCV = sum(lineItems, rcv);
+
+  let confidence = 0.8;
+  if (totals.totalRCV !== undefined) {
+    confidence = Math.abs(totals.totalRCV - itemizedRCV) <= Math.max(1, totals.totalRCV * 0.01) ? 0.95 : 0.85;
+  }
+
+  return {
+    data: {
+      totalRCV: totals.totalRCV ?? itemizedRCV,
+      totalACV: totals.totalACV ?? sum(lineItems, acv),
+      roofRCV: roof.length > 0 ? sum(roof, rcv) : undefined,
+      roofACV: roof.length > 0 ? sum(roof, acv) : undefined,
+      gutterRCV: gutters.length > 0 ? sum(gutters, rcv) : undefined,
+      gutterACV: gutters.length > 0 ? sum(gutters, acv) : undefined,
+      deductible: totals.deductible,
+    },
+    confidence,
+  };
+}
+
+/**
+ * Wait for every promise to settle, then rethrow the first failure
+ */
+async function allSettledOrThrow<T extends readonly unknown[]>(
+  promises: readonly [...{ [K in keyof T]: Promise<T[K]> }]
+): Promise<T> {
+  const results = await Promise.allSettled(promises);
+
+  const failure = results.find(
+    (r): r is PromiseRejectedResult => r.status === "rejected"
+  );
+  if (failure) {
+    throw failure.reason;
+  }
+
+  return results.map((r) => (r as PromiseFulfilledResult<unknown>).value) as unknown as T;
+}
+
 // Export singleton instance
 export const documentProcessor = new DocumentProcessor();
@@ -0,0 +1,139 @@
+/**
+ * Page Handling
+ *
+ * Splits PDFs into single pages for OCR and stitches the per-page text back
+ * together with page markers and a character-offset index, so extracted data
+ * can cite the page it came from.
+ */
+
+import { PDFDocument } from "pdf-lib";
+
+export interface OcrPage {
+  pageNumber: number; // 1-based
+  text: string;
+  confidence?: number; // 0-1
+  provider?: string;
+}
+
+export interface PageSpan {
+  page: number;
+  start: number; // Offset of the page marker in the stitched text
+  end: number;   // Exclusive end offset
+  confidence?: number;
+  provider?: string;
+}
+
+export interface StitchedText {
+  text: string;
+  pageIndex: PageSpan[];
+}
+
+/**
+ * Split a PDF into one single-page PDF per page
+ */
+export async function splitPdfPages(fileBuffer: Buffer): Promise<Buffer[]> {
+  const source = await PDFDocument.load(fileBuffer, { ignoreEncryption: true });
+  const pages: Buffer[] = [];
+
+  for (let i = 0; i < source.getPageCount(); i++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [i]);
+    single.addPage(page);
+    pages.push(Buffer.from(await single.save()));
+  }
+
+  return pages;
+}
+
+/**
+ * Marker inserted before each page's text
+ */
+export function pageMarker(pageNumber: number, pageCount: number): string {
+  return `=== PAGE ${pageNumber} OF ${pageCount} ===`;
+}
+
+/**
+ * Join per-page OCR text into a single document with page markers
+ */
+export function stitchPages(pages: OcrPage[]): StitchedText {
+  const sorted = [...pages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const pageIndex: PageSpan[] = [];
+  let text = "";
+
+  for (const page of sorted) {
+    if (text) text += "\n\n";
+    const start = text.length;
+    text += `${pageMarker(page.pageNumber, sorted.length)}\n${page.text.trim()}`;
+    pageIndex.push({
+      page: page.pageNumber,
+      start,
+      end: text.length,
+      confidence: page.confidence,
+      provider: page.provider,
+    });
+  }
+
+  return { text, pageIndex };
+}
+
+/**
+ * Get the page containing a character offset
+ */
+export function getPageAtOffset(pageIndex: PageSpan[], offset: number): number | null {
+  const span = pageIndex.find((s) => offset >= s.start && offset < s.end);
+  return span ? span.page : null;
+}
+
+/**
+ * Find the page a snippet of text (e.g. a line item description) appears on
+ */
+export function findPageForText(
+  text: string,
+  pageIndex: PageSpan[],
+  snippet: string
+): number | null {
+  if (pageIndex.length === 0 || !snippet.trim()) return null;
+  if (pageIndex.length === 1) return pageIndex[0].page;
+
+  const words = snippet.trim().split(/\s+/);
+
+  // Exact match first, then fall back to the first few words
+  let offset = searchWords(text, words);
+  if (offset === -1 && words.length > 4) {
+    offset = searchWords(text, words.slice(0, 4));
+  }
+
+  return offset === -1 ? null : getPageAtOffset(pageIndex, offset);
+}
+
+/**
+ * Case-insensitive search for a word sequence, tolerant of OCR whitespace
+ */
+function searchWords(text: string, words: string[]): number {
+  const pattern = words
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s+");
+  return text.search(new RegExp(pattern, "i"));
+}
+
+/**
+ * Map over items with at most `limit` calls in flight
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,342 @@
+/**
+ * Line Item Parser
+ *
+ * Rule-based parser for Xactimate and Symbility estimate tables. Rows are only
+ * accepted when their numbers reconcile (qty × unit price + tax + O&P = RCV,
+ * RCV - depreciation = ACV), so every parsed figure is exact. Rows that look
+ * like line items but fail to reconcile are returned for the LLM to handle.
+ * Depreciation in parentheses is recoverable; in angle brackets it is not.
+ */
+
+export type ScopeFormat = "xactimate" | "symbility";
+
+export interface ParsedLineItem {
+  lineNumber?: number;
+  category: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  tax: number;
+  overheadProfit: number;
+  rcv: number;
+  depreciation?: number;
+  depreciationRecoverable?: boolean; // Only when the row shows its depreciation
+  acv?: number;
+  offset: number; // Character offset of the row in the source text
+}
+
+export interface UnparsedRow {
+  text: string;
+  offset: number;
+}
+
+export interface ScopeTotals {
+  totalRCV?: number;
+  totalACV?: number;
+  deductible?: number;
+}
+
+export interface LineItemParseResult {
+  format: ScopeFormat | null;
+  items: ParsedLineItem[];
+  unparsed: UnparsedRow[];
+}
+
+// Xactimate / Symbility units of measure
+const UNITS = ["SQ", "LF", "EA", "SF", "SY", "HR", "CF", "CY", "LS", "DA", "WK", "MO", "RL", "BX", "GAL", "TN"];
+
+const UNIT_PATTERN = UNITS.join("|");
+
+// Numbered Xactimate row: "12. Description  30.33 SQ  <amounts>"
+const NUMBERED_ROW = new RegExp(
+  `^\\s*(\\d{1,4})\\.\\s+(.+?)\\s+(-?\\d[\\d,]*(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})\\b\\s*@?\\s*(.*)$`,
+  "i"
+);
+
+// Unnumbered Symbility row: "Description  30.33 SQ @ $245.00  <amounts>"
+const UNNUMBERED_ROW = new RegExp(
+  `^\\s*([A-Za-z].+?)\\s+(-?\\d[\\d,]*(?:\\.\\d+)?)\\s*(${UNIT_PATTERN})\\b\\s*@?\\s*(.*)$`,
+  "i"
+);
+
+const NUMBERED_PREFIX = /^\s*\d{1,4}\.\s+\S/;
+
+// Money values: 1,234.56  (1,234.56)  <1,234.56>  $1,234.56
+const MONEY = /[(<]?-?\$?\d{1,3}(?:,\d{3})*\.\d{2}[)>]?|[(<]?-?\$?\d+\.\d{2}[)>]?/g;
+
+// Age/life, condition and depreciation-percent columns that are not amounts
+const NOISE_TOKENS = [
+  /\b\d+\/\d+\s*yrs\b/gi,
+  /\bavg\.?/gi,
+  /\b\d+(?:\.\d+)?\s*%/g,
+  /\[[A-Z%]+\]/g,
+  /\bNA\b/g,
+];
+
+type Field = "unitPrice" | "tax" | "overheadProfit" | "rcv" | "depreciation" | "acv";
+
+// Column layouts to try, most specific first
+const LAYOUTS: Field[][] = [
+  ["unitPrice", "tax", "overheadProfit", "rcv", "depreciation", "acv"],
+  ["unitPrice", "tax", "rcv", "depreciation", "acv"],
+  ["unitPrice", "tax", "overheadProfit", "rcv", "acv"],
+  ["unitPrice", "rcv", "depreciation", "acv"],
+  ["unitPrice", "tax", "rcv", "acv"],
+  ["unitPrice", "tax", "overheadProfit", "rcv"],
+  ["unitPrice", "tax", "rcv"],
+  ["unitPrice", "rcv", "acv"],
+  ["unitPrice", "rcv"],
+];
+
+const CATEGORY_KEYWORDS: { category: string; pattern: RegExp }[] = [
+  { category: "gutters", pattern: /gutter|downspout|leader/i },
+  { category: "siding", pattern: /siding|soffit|fascia|wrap|house\s*wrap/i },
+  { category: "windows", pattern: /window|screen|glaz/i },
+  { category: "interior", pattern: /drywall|paint|ceiling|insulation|carpet|texture/i },
+  {
+    category: "roof",
+    pattern: /rfg|roof|shingle|felt|underlay|flashing|vent|drip\s*edge|ridge|valley|starter|ice\s*&?\s*water|pipe\s*jack|tear\s*off|steep|high\s*roof|dumpster|sheathing|decking/i,
+  },
+];
+
+/**
+ * Detect which estimating system produced the text
+ */
+export function detectScopeFormat(text: string): ScopeFormat | null {
+  if (/symbility|corelogic|claims\s*connect/i.test(text)) {
+    return "symbility";
+  }
+
+  if (/xactimate|xactware|xactanalysis/i.test(text)) {
+    return "xactimate";
+  }
+
+  // Xactimate's table header without the branding
+  if (/\bRCV\b/.test(text) && /DEPREC/i.test(text) && /\bACV\b/.test(text) && /\bO&P\b/.test(text)) {
+    return "xactimate";
+  }
+
+  return null;
+}
+
+/**
+ * Parse line items from scope text
+ */
+export function parseLineItems(text: string): LineItemParseResult {
+  const format = detectScopeFormat(text);
+  const result: LineItemParseResult = { format, items: [], unparsed: [] };
+
+  if (!format) {
+    return result;
+  }
+
+  const lines = splitLinesWithOffsets(text);
+  let section: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const { text: line, offset } = lines[i];
+
+    const heading = detectSectionHeading(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+
+    const isNumbered = NUMBERED_PREFIX.test(line);
+    if (!isNumbered && format === "xactimate") {
+      continue;
+    }
+
+    // Descriptions can wrap - join up to two continuation lines
+    let parsed: ParsedLineItem | null = null;
+    let joined = line;
+    for (let extra = 0; extra <= 2 && i + extra < lines.length; extra++) {
+      if (extra > 0) {
+        const next = lines[i + extra].text;
+        if (NUMBERED_PREFIX.test(next)) break;
+        joined += " " + next.trim();
+      }
+
+      parsed = parseRow(joined, offset, section);
+      if (parsed) {
+        i += extra;
+        break;
+      }
+    }
+
+    if (parsed) {
+      result.items.push(parsed);
+    } else if (isNumbered || looksLikeLineItem(line)) {
+      result.unparsed.push({ text: line.trim(), offset });
+    }
+  }
+
+  return result;
+}
+
+// Claim summary rows, e.g. "Replacement Cost Value  13,000.00" or "Total RCV $13,000.00"
+const SUMMARY_ROWS: { field: keyof ScopeTotals; pattern: RegExp }[] = [
+  { field: "totalRCV", pattern: /^\s*(?:replacement\s+cost\s+value|total\s+rcv|rcv\s+total)\b/i },
+  { field: "totalACV", pattern: /^\s*(?:actual\s+cash\s+value|total\s+acv|acv\s+total)\b/i },
+  { field: "deductible", pattern: /^\s*(?:less\s+)?(?:policy\s+)?deductible\b/i },
+];
+
+/**
+ * Read the claim totals from the scope's summary block. A scope with a
+ * summary per coverage repeats these rows, so the last one (the recap) wins.
+ */
+export function parseScopeTotals(text: string): ScopeTotals {
+  const totals: ScopeTotals = {};
+
+  for (const line of text.split("\n")) {
+    for (const { field, pattern } of SUMMARY_ROWS) {
+      if (!pattern.test(line)) continue;
+
+      const amounts = extractAmountTokens(line.replace(pattern, ""));
+      if (amounts.length > 0) {
+        totals[field] = parseAmount(amounts[amounts.length - 1]);
+      }
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Parse a single row, accepting it only if its amounts reconcile
+ */
+function parseRow(line: string, offset: number, section: string | null): ParsedLineItem | null {
+  const numbered = line.match(NUMBERED_ROW);
+  const unnumbered = numbered ? null : line.match(UNNUMBERED_ROW);
+
+  if (!numbered && !unnumbered) return null;
+
+  const [lineNumber, description, quantityText, unit, rest] = numbered
+    ? [Number(numbered[1]), numbered[2], numbered[3], numbered[4], numbered[5]]
+    : [undefined, unnumbered![1], unnumbered![2], unnumbered![3], unnumbered![4]];
+
+  const quantity = parseAmount(quantityText);
+  const tokens = extractAmountTokens(rest);
+  const amounts = tokens.map(parseAmount);
+
+  if (!quantity || amounts.length < 2) return null;
+
+  for (const layout of LAYOUTS) {
+    if (layout.length !== amounts.length) continue;
+
+    const values: Partial<Record<Field, number>> = {};
+    layout.forEach((field, index) => {
+      values[field] = amounts[index];
+    });
+
+    const unitPrice = values.unitPrice ?? 0;
+    const tax = values.tax ?? 0;
+    const overheadProfit = values.overheadProfit ?? 0;
+    const rcv = values.rcv ?? 0;
+
+    if (!approximatelyEqual(quantity * unitPrice + tax + overheadProfit, rcv)) continue;
+
+    let depreciation = values.depreciation;
+    const acv = values.acv;
+    const depreciationToken = tokens[layout.indexOf("depreciation")];
+
+    if (acv !== undefined) {
+      if (depreciation === undefined) {
+        if (acv > rcv + 0.01) continue;
+        depreciation = round2(rcv - acv);
+      } else if (!approximatelyEqual(rcv - depreciation, acv)) {
+        continue;
+      }
+    }
+
+    const cleanDescription = description.replace(/\s+/g, " ").trim();
+
+    return {
+      lineNumber,
+      category: categorize(cleanDescription, section),
+      description: cleanDescription,
+      quantity,
+      unit: unit.toUpperCase(),
+      unitPrice,
+      tax,
+      overheadProfit,
+      rcv,
+      depreciation,
+      depreciationRecoverable: depreciationToken ? !depreciationToken.startsWith("<") : undefined,
+      acv,
+      offset,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Pull the monetary amounts out of the trailing columns of a row, as written
+ */
+function extractAmountTokens(columns: string): string[] {
+  let cleaned = columns;
+  for (const noise of NOISE_TOKENS) {
+    cleaned = cleaned.replace(noise, " ");
+  }
+
+  return cleaned.match(MONEY) || [];
+}
+
+/**
+ * Parse a number, ignoring currency symbols, separators and the
+ * parentheses/brackets Xactimate uses for depreciation. A minus sign is kept,
+ * so credits and negative quantities stay negative.
+ */
+function parseAmount(value: string): number {
+  return Number(value.replace(/[$,()<>]/g, "")) || 0;
+}
+
+function approximatelyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(0.1, Math.abs(b) * 0.0005);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * A row that has a unit of measure and at least two amounts but did not parse
+ */
+function looksLikeLineItem(line: string): boolean {
+  return new RegExp(`\\d\\s*(${UNIT_PATTERN})\\b`, "i").test(line) && (line.match(MONEY) || []).length >= 2;
+}
+
+/**
+ * Recognize estimate section headings such as "Roof", "Dwelling Roof", "Gutters"
+ */
+function detectSectionHeading(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > 40 || /\d/.test(trimmed)) return null;
+
+  for (const { category, pattern } of CATEGORY_KEYWORDS) {
+    if (pattern.test(trimmed)) return category;
+  }
+
+  return null;
+}
+
+function categorize(description: string, section: string | null): string {
+  for (const { category, pattern } of CATEGORY_KEYWORDS) {
+    if (pattern.test(description)) return category;
+  }
+  return section || "other";
+}
+
+function splitLinesWithOffsets(text: string): { text: string; offset: number }[] {
+  const lines: { text: string; offset: number }[] = [];
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    lines.push({ text: line, offset });
+    offset += line.length + 1;
+  }
+
+  return lines;
+}
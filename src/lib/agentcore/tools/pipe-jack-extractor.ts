@@ -30,8 +30,40 @@ export interface PipeJackResult {
   totalCount: number;
   confidence: number;
   validationNotes: string[];
+  disagreements: PipeJackDisagreement[]; // AI vs. pattern cross-check
 }
 
+export type PipeJackField =
+  | "pf3n1"
+  | "pf14"
+  | "pf14_4"
+  | "pf14_5"
+  | "pf14_6"
+  | "pf14_8"
+  | "pfSplitBoot"
+  | "pfLead"
+  | "pfGooseNeckSmall"
+  | "pfGooseNeckLarge";
+
+export interface PipeJackDisagreement {
+  field: PipeJackField;
+  ai: number;
+  pattern: number;
+}
+
+const PIPE_JACK_FIELDS: PipeJackField[] = [
+  "pf3n1",
+  "pf14",
+  "pf14_4",
+  "pf14_5",
+  "pf14_6",
+  "pf14_8",
+  "pfSplitBoot",
+  "pfLead",
+  "pfGooseNeckSmall",
+  "pfGooseNeckLarge",
+];
+
 /**
  * Common pipe jack patterns found in insurance documents
  */
@@ -71,8 +103,27 @@ const PIPE_JACK_PATTERNS = {
     /dryer\s*(?:vent\s*)?(?:flash|cap|hood)/gi,
     /bath(?:room)?\s*(?:exhaust\s*)?(?:vent\s*)?(?:flash|cap)/gi,
   ],
+
+  // Pipe jacks with no size or type given
+  pfGeneric: [
+    /pipe\s*(?:jack|boot|collar)/gi,
+    /flashing\s*-\s*pipe/gi,
+  ],
 };
 
+// Pattern groups in match priority - each line is counted once, by the first group that matches
+const PATTERN_PRIORITY: (keyof typeof PIPE_JACK_PATTERNS)[] = [
+  "pf3n1",
+  "pfSplitBoot",
+  "pfLead",
+  "pfGooseNeck",
+  "pf14",
+  "pfGeneric",
+];
+
+// Base confidence for pattern-only extraction
+const PATTERN_CONFIDENCE = 0.6;
+
 /**
  * Extract pipe jack quantities from OCR text
  */
@@ -95,13 +146,25 @@ export async function extractPipeJacks(
     totalCount: 0,
     confidence: 0,
     validationNotes: [],
+    disagreements: [],
   };
 
+  const patternExtraction = extractWithPatterns(ocrText);
+
   // Use AI for accurate extraction
   const aiExtraction = await extractWithAI(ocrText);
 
-  // Merge AI results
-  Object.assign(result, aiExtraction);
+  if (aiExtraction) {
+    // Merge AI results, then cross-check them against the document text
+    Object.assign(result, aiExtraction, {
+      validationNotes: aiExtraction.validationNotes || [],
+      disagreements: [],
+    });
+    crossCheckWithPatterns(result, patternExtraction);
+  } else {
+    Object.assign(result, patternExtraction);
+    result.validationNotes.push("AI extraction failed, using regex fallback");
+  }
 
   // Calculate total
   result.totalCount =
@@ -139,7 +202,7 @@ export async function extractPipeJacks(
 /**
  * Use AI to extract pipe jack quantities with high accuracy
  */
-async function extractWithAI(ocrText: string): Promise<Partial<PipeJackResult>> {
+async function extractWithAI(ocrText: string): Promise<Partial<PipeJackResult> | null> {
   const systemPrompt = `You are an expert at extracting pipe jack/flashing quantities from roofing insurance documents.
 
 PIPE JACK TYPES TO IDENTIFY:
@@ -219,7 +282,129 @@ OUTPUT FORMAT (JSON only):
     console.error("AI extraction error:", error);
   }
 
-  return { confidence: 0.5, validationNotes: ["AI extraction failed, using regex fallback"] };
+  return null;
+}
+
+/**
+ * Extract pipe jack quantities with PIPE_JACK_PATTERNS, reading the quantity
+ * given next to each match
+ */
+export function extractWithPatterns(
+  ocrText: string
+): Pick<PipeJackResult, PipeJackField | "confidence" | "validationNotes"> {
+  const counts = Object.fromEntries(PIPE_JACK_FIELDS.map((f) => [f, 0])) as Record<PipeJackField, number>;
+  const validationNotes: string[] = [];
+  let assumedQuantities = 0;
+
+  for (const line of ocrText.split("\n")) {
+    // Tear-off lines repeat the install line's quantity
+    if (/^\s*(?:\d{1,4}\.\s*)?remove\b/i.test(line)) continue;
+
+    const group = PATTERN_PRIORITY.find((key) =>
+      PIPE_JACK_PATTERNS[key].some((pattern) => new RegExp(pattern.source, "i").test(line))
+    );
+    if (!group) continue;
+
+    let quantity = parseQuantity(line);
+    if (quantity === null) {
+      quantity = 1;
+      assumedQuantities++;
+    }
+
+    counts[classifyPatternMatch(group, line)] += quantity;
+  }
+
+  if (assumedQuantities > 0) {
+    validationNotes.push(
+      `${assumedQuantities} pipe jack line(s) had no readable quantity; counted as 1 each`
+    );
+  }
+
+  return {
+    ...counts,
+    confidence: PATTERN_CONFIDENCE * Math.pow(0.9, assumedQuantities),
+    validationNotes,
+  };
+}
+
+/**
+ * Map a matched pattern group to a result field, using the pipe size on the line
+ */
+function classifyPatternMatch(
+  group: keyof typeof PIPE_JACK_PATTERNS,
+  line: string
+): PipeJackField {
+  const size = parsePipeSize(line);
+
+  switch (group) {
+    case "pf3n1":
+    case "pfSplitBoot":
+    case "pfLead":
+      return group;
+    case "pfGooseNeck":
+      return size !== null && size > 4 ? "pfGooseNeckLarge" : "pfGooseNeckSmall";
+    default:
+      if (size === 4) return "pf14_4";
+      if (size === 5) return "pf14_5";
+      if (size === 6) return "pf14_6";
+      if (size === 8) return "pf14_8";
+      return "pf14";
+  }
+}
+
+/**
+ * Read the quantity on a line: "3.00 EA", "3 x Pipe jack" or "Pipe jack (3)"
+ */
+function parseQuantity(line: string): number | null {
+  const patterns = [
+    /(\d+(?:\.\d+)?)\s*EA\b/i,
+    /^\s*(?:\d{1,4}\.\s+)?(\d+)\s*(?:x|@)\s+/i,
+    /\((\d+)\)/,
+    /\b(?:qty|quantity)\s*:?\s*(\d+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = line.match(pattern);
+    if (match) {
+      const quantity = Math.round(Number(match[1]));
+      if (quantity > 0) return quantity;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a pipe diameter in inches, e.g. 4" or 1-1/2"
+ */
+function parsePipeSize(line: string): number | null {
+  const match = line.match(/(\d+(?:\.\d+)?)(?:\s*-\s*\d\/\d)?\s*(?:["\u201d]|in\b|inch)/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Compare AI counts against pattern counts, flagging each field that disagrees
+ * and lowering confidence accordingly
+ */
+function crossCheckWithPatterns(
+  result: PipeJackResult,
+  patternResult: Pick<PipeJackResult, PipeJackField>
+): void {
+  for (const field of PIPE_JACK_FIELDS) {
+    const ai = result[field] || 0;
+    const pattern = patternResult[field];
+
+    if (ai !== pattern) {
+      result.disagreements.push({ field, ai, pattern });
+      result.validationNotes.push(
+        `${field}: AI found ${ai}, document text pattern found ${pattern}`
+      );
+    }
+  }
+
+  if (result.disagreements.length > 0) {
+    result.confidence = (result.confidence || 0) * Math.pow(0.9, result.disagreements.length);
+  }
 }
 
 /**
@@ -242,7 +427,7 @@ export function validateAgainstAerial(
   aerialData: { roofArea: number; structures: { name: string; area: number }[] }
 ): PipeJackResult {
   const totalStructures = aerialData.structures.length;
-  const minExpected = totalStructures * 2; // At least 2 per structure
+  const minExpected = getMinimumPipeJacks(totalStructures);
 
   if (extraction.totalCount < minExpected) {
     extraction.validationNotes.push(
@@ -253,3 +438,10 @@ export function validateAgainstAerial(
 
   return extraction;
 }
+
+/**
+ * Minimum pipe jacks expected for a number of structures - at least 2 per structure
+ */
+export function getMinimumPipeJacks(structureCount: number): number {
+  return structureCount * 2;
+}
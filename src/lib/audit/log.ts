@@ -0,0 +1,187 @@
+/**
+ * Audit Log
+ *
+ * Append-only record of who changed what in an organization: the actor,
+ * the entity, the action and a field-level before/after diff, plus the IP
+ * address and user agent for changes made through the app. Entries are only
+ * ever created; there is deliberately no way to edit or remove one.
+ */
+
+import { headers } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import { getUserId } from "@/lib/get-session";
+import { csvCell } from "@/lib/utils";
+import type { AuditLog } from "@prisma/client";
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEntry {
+  organizationId: string;
+  entityType: string;
+  entityId: string;
+  action: string;
+  before?: object | null; // Entity as it was; omit for creates
+  after?: object | null;  // Entity as it is now; omit for deletes
+}
+
+export interface AuditFilters {
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export type AuditLogEntry = AuditLog & { actor: { id: string; name: string | null; email: string } | null };
+
+// Bookkeeping fields left out of diffs
+const IGNORED_FIELDS = new Set(["updatedAt"]);
+
+const CSV_COLUMNS = [
+  "Time",
+  "Actor",
+  "Entity Type",
+  "Entity ID",
+  "Action",
+  "Field",
+  "Before",
+  "After",
+  "IP Address",
+  "User Agent",
+];
+
+export class AuditLogger {
+  /**
+   * Append an entry
+   */
+  async record(
+    entry: AuditEntry & { actorId: string | null; ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<void> {
+    const changes = diffChanges(entry.before, entry.after);
+
+    await prisma.auditLog.create({
+      data: {
+        organizationId: entry.organizationId,
+        actorId: entry.actorId,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        action: entry.action,
+        changes: Object.keys(changes).length > 0 ? (changes as object) : undefined,
+        ipAddress: entry.ipAddress || null,
+        userAgent: entry.userAgent || null,
+      },
+    });
+  }
+
+  /**
+   * An organization's entries, newest first
+   */
+  async list(organizationId: string, filters: AuditFilters = {}): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const where = {
+      organizationId,
+      entityType: filters.entityType || undefined,
+      entityId: filters.entityId || undefined,
+      actorId: filters.actorId || undefined,
+      action: filters.action || undefined,
+      createdAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: { actor: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: "desc" },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { entries, total };
+  }
+
+  /**
+   * Render entries as a CSV, one row per changed field
+   */
+  toCsv(entries: AuditLogEntry[]): string {
+    const rows = entries.flatMap((entry) => {
+      const base = [
+        entry.createdAt.toISOString(),
+        entry.actor ? entry.actor.name || entry.actor.email : "System",
+        entry.entityType,
+        entry.entityId,
+        entry.action,
+      ];
+      const request = [entry.ipAddress || "", entry.userAgent || ""];
+      const changes = Object.entries((entry.changes as AuditChanges | null) || {});
+
+      if (changes.length === 0) {
+        return [[...base, "", "", "", ...request]];
+      }
+
+      return changes.map(([field, change]) => [
+        ...base,
+        field,
+        formatValue(change.before),
+        formatValue(change.after),
+        ...request,
+      ]);
+    });
+
+    return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+  }
+}
+
+/**
+ * Record a change made by the signed-in user, with the request's IP address
+ * and user agent
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  const [actorId, requestHeaders] = await Promise.all([getUserId(), headers()]);
+
+  await auditLogger.record({
+    ...entry,
+    actorId,
+    ipAddress: requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() || requestHeaders.get("x-real-ip"),
+    userAgent: requestHeaders.get("user-agent"),
+  });
+}
+
+/**
+ * Fields that differ between two versions of an entity. Values are compared
+ * as JSON, so decimals and dates diff by value. On updates only the fields
+ * of the new version count, so relations loaded with the old one are ignored.
+ */
+export function diffChanges(before?: object | null, after?: object | null): AuditChanges {
+  const from = toJson(before);
+  const to = toJson(after);
+  const changes: AuditChanges = {};
+  const fields = before && after ? Object.keys(to) : [...Object.keys(from), ...Object.keys(to)];
+
+  for (const field of new Set(fields)) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const previous = from[field] ?? null;
+    const next = to[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+}
+
+function toJson(value: object | null | undefined): Record<string, unknown> {
+  return value ? JSON.parse(JSON.stringify(value)) : {};
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Export singleton instance
+export const auditLogger = new AuditLogger();
@@ -0,0 +1,215 @@
+/**
+ * Claim Payment Ledger
+ *
+ * Tracks what the carrier and homeowner owe on a job against what has been
+ * received: the initial ACV check (ACV less the deductible), the release of
+ * recoverable depreciation once work is complete, approved supplements, and
+ * the deductible collected from the homeowner. A deductible larger than the
+ * ACV comes out of the later payments instead. Non-recoverable depreciation
+ * is never paid, so it is left out of what the carrier owes. Depreciation is
+ * read from the scope behind the job's latest analysis only, so a revised
+ * scope doesn't count it twice.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { ClaimPayment, InsuranceAnalysis, Job, LineItem, Supplement } from "@prisma/client";
+
+export type ClaimPaymentType = "acv" | "depreciation_release" | "supplement" | "deductible";
+
+export interface LedgerLine {
+  type: ClaimPaymentType;
+  label: string;
+  payer: "carrier" | "homeowner";
+  expected: number;
+  received: number;
+  outstanding: number; // Never negative; overpayments show as received > expected
+}
+
+export interface DepreciationSplit {
+  total: number;
+  recoverable: number;
+  nonRecoverable: number;
+  itemized: boolean; // False when taken from the claim's RCV less ACV
+}
+
+export interface ClaimLedgerSummary {
+  lines: LedgerLine[];
+  depreciation: DepreciationSplit;
+  totals: {
+    expected: number;
+    collected: number;
+    owedByCarrier: number;
+    owedByHomeowner: number;
+    outstanding: number;
+  };
+  payments: ClaimPayment[];
+}
+
+type LedgerJob = Pick<Job, "totalRCV" | "totalACV" | "deductible"> & {
+  lineItems: Pick<LineItem, "rcv" | "depreciation" | "depreciationRecoverable">[];
+  supplements: Pick<Supplement, "status" | "rcvDelta" | "approvedAmount">[];
+  claimPayments: ClaimPayment[];
+};
+
+const LINE_LABELS: Record<ClaimPaymentType, string> = {
+  acv: "Initial ACV payment",
+  depreciation_release: "Recoverable depreciation",
+  supplement: "Approved supplements",
+  deductible: "Deductible",
+};
+
+export class ClaimLedger {
+  /**
+   * Ledger for a job
+   */
+  async getLedger(jobId: string): Promise<ClaimLedgerSummary> {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      include: {
+        lineItems: {
+          where: { source: "insurance" },
+          select: { rcv: true, depreciation: true, depreciationRecoverable: true, source: true, documentId: true },
+        },
+        insuranceAnalyses: { orderBy: { createdAt: "desc" }, take: 1, select: { documentId: true } },
+        supplements: { select: { status: true, rcvDelta: true, approvedAmount: true } },
+        claimPayments: { orderBy: { receivedAt: "asc" } },
+      },
+    });
+
+    if (!job) {
+      throw new Error("Job not found");
+    }
+
+    return this.summarize({ ...job, lineItems: claimLineItems(job.lineItems, job.insuranceAnalyses[0]) });
+  }
+
+  /**
+   * Expected vs received for each kind of payment
+   */
+  summarize(job: LedgerJob): ClaimLedgerSummary {
+    const depreciation = depreciationSplit(job);
+    const deductible = Number(job.deductible) || 0;
+    const rcv = job.totalRCV !== null
+      ? Number(job.totalRCV)
+      : job.lineItems.reduce((sum, item) => sum + (Number(item.rcv) || 0), 0);
+    const acv = job.totalACV !== null ? Number(job.totalACV) : rcv - depreciation.total;
+    const supplements = job.supplements.reduce((sum, supplement) => sum + approvedSupplementAmount(supplement), 0);
+
+    // The carrier withholds the deductible from its first payments
+    let withheld = deductible;
+    const afterDeductible = (amount: number) => {
+      const applied = Math.min(withheld, Math.max(0, amount));
+      withheld -= applied;
+      return Math.max(0, amount) - applied;
+    };
+
+    const expected: Record<ClaimPaymentType, number> = {
+      acv: afterDeductible(acv),
+      depreciation_release: afterDeductible(depreciation.recoverable),
+      supplement: afterDeductible(supplements),
+      deductible,
+    };
+
+    const lines = (Object.keys(LINE_LABELS) as ClaimPaymentType[]).map((type) => {
+      const received = job.claimPayments
+        .filter((payment) => payment.type === type)
+        .reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+      return {
+        type,
+        label: LINE_LABELS[type],
+        payer: type === "deductible" ? "homeowner" : "carrier",
+        expected: round2(expected[type]),
+        received: round2(received),
+        outstanding: round2(Math.max(0, expected[type] - received)),
+      } satisfies LedgerLine;
+    });
+
+    const owed = (payer: LedgerLine["payer"]) =>
+      round2(lines.filter((line) => line.payer === payer).reduce((sum, line) => sum + line.outstanding, 0));
+    const owedByCarrier = owed("carrier");
+    const owedByHomeowner = owed("homeowner");
+
+    return {
+      lines,
+      depreciation,
+      totals: {
+        expected: round2(lines.reduce((sum, line) => sum + line.expected, 0)),
+        collected: round2(lines.reduce((sum, line) => sum + line.received, 0)),
+        owedByCarrier,
+        owedByHomeowner,
+        outstanding: round2(owedByCarrier + owedByHomeowner),
+      },
+      payments: job.claimPayments,
+    };
+  }
+}
+
+/**
+ * The line items of the claim: the insurance scope lines extracted from the
+ * document behind the latest analysis. Other uploaded scopes and manual lines
+ * are left out.
+ */
+export function claimLineItems<T extends Pick<LineItem, "source" | "documentId">>(
+  lineItems: T[],
+  analysis: Pick<InsuranceAnalysis, "documentId"> | undefined
+): T[] {
+  return lineItems.filter(
+    (item) => item.source === "insurance" && (!analysis?.documentId || item.documentId === analysis.documentId)
+  );
+}
+
+/**
+ * Split a claim's depreciation into recoverable and non-recoverable. Lines
+ * whose recoverability is unknown count as recoverable, as most are.
+ */
+export function depreciationSplit(job: Pick<LedgerJob, "totalRCV" | "totalACV" | "lineItems">): DepreciationSplit {
+  let recoverable = 0;
+  let nonRecoverable = 0;
+
+  for (const item of job.lineItems) {
+    const amount = Number(item.depreciation) || 0;
+    if (item.depreciationRecoverable === false) {
+      nonRecoverable += amount;
+    } else {
+      recoverable += amount;
+    }
+  }
+
+  if (recoverable + nonRecoverable > 0) {
+    return {
+      total: round2(recoverable + nonRecoverable),
+      recoverable: round2(recoverable),
+      nonRecoverable: round2(nonRecoverable),
+      itemized: true,
+    };
+  }
+
+  // No per-line depreciation on the scope; fall back to the claim totals
+  const total =
+    job.totalRCV !== null && job.totalACV !== null
+      ? round2(Math.max(0, Number(job.totalRCV) - Number(job.totalACV)))
+      : 0;
+
+  return { total, recoverable: total, nonRecoverable: 0, itemized: false };
+}
+
+/**
+ * RCV the carrier agreed to pay on a supplement
+ */
+function approvedSupplementAmount(supplement: Pick<Supplement, "status" | "rcvDelta" | "approvedAmount">): number {
+  if (supplement.status === "approved") {
+    return Number(supplement.approvedAmount ?? supplement.rcvDelta) || 0;
+  }
+  if (supplement.status === "partially_approved") {
+    return Number(supplement.approvedAmount) || 0;
+  }
+  return 0;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const claimLedger = new ClaimLedger();
@@ -1,6 +1,8 @@
 /**
  * Development session bypass
- * Provides a mock session for development without authentication
+ * Provides a mock session for local development without signing in. Only
+ * honored when DEV_AUTH_BYPASS=true outside production; NODE_ENV is inlined
+ * at build time, so a production build can never enable it.
  */
 
 export const DEV_USER = {
@@ -20,6 +22,13 @@ export const DEV_ORGANIZATION = {
   subscriptionTier: "enterprise",
 };
 
+/**
+ * Whether requests run as the dev user instead of the signed-in user
+ */
+export function isDevAuthBypassEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" && process.env.DEV_AUTH_BYPASS === "true";
+}
+
 export function getDevSession() {
   return {
     user: DEV_USER,
@@ -0,0 +1,223 @@
+/**
+ * Estimate PDF
+ *
+ * Renders the three estimate types from the stored priced line items:
+ * - consumer: scope of work and price only, no cost, supplier or margin
+ * - contractor: full cost breakdown with suppliers, overhead and profit
+ * - material_only: material list with SKUs for ordering
+ */
+
+import { PdfWriter, type TableColumn } from "@/lib/pdf/writer";
+import { writeLetterhead, type Branding } from "@/lib/pdf/branding";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { PricedItem } from "@/lib/pricing/calculator";
+import type { Estimate, Job } from "@prisma/client";
+
+export type EstimateType = "consumer" | "contractor" | "material_only";
+
+const TITLES: Record<EstimateType, string> = {
+  consumer: "Roofing Estimate",
+  contractor: "Contractor Estimate - Internal",
+  material_only: "Material List",
+};
+
+const DEFAULT_TERMS: Record<EstimateType, string> = {
+  consumer: [
+    "This estimate is valid for 30 days from the date above.",
+    "Pricing is based on the insurance scope and measurements on file; items added by the carrier on supplement will be billed at the approved amount.",
+    "Any rotted decking or hidden damage found during tear-off will be replaced at the approved per-sheet rate.",
+    "Payment is due per the contract schedule. Your deductible is your responsibility and is due at completion.",
+  ].join("\n"),
+  contractor: "Internal document - contains cost and margin. Do not send to the customer.",
+  material_only: "Prices are supplier quotes as of the price date above and are subject to change at order time.",
+};
+
+/**
+ * Render an estimate as a PDF
+ */
+export async function renderEstimatePdf(data: {
+  branding: Branding;
+  job: Job;
+  estimate: Estimate;
+}): Promise<Uint8Array> {
+  const { branding, job, estimate } = data;
+  const type = estimate.type as EstimateType;
+  const items = (estimate.lineItems as unknown as PricedItem[]) || [];
+
+  const writer = await PdfWriter.create({
+    title: `${TITLES[type]} - ${job.jobNumber}`,
+    footer: `${branding.name} • ${TITLES[type]} • Job ${job.jobNumber}`,
+  });
+
+  await writeLetterhead(writer, branding);
+  writer.heading(TITLES[type], 18, branding.color);
+
+  writer.keyValues([
+    ["Prepared For", job.customerName],
+    ["Property", `${job.streetAddress}, ${job.city}, ${job.state} ${job.zipCode}`],
+    ["Job Number", job.jobNumber],
+    ...(job.claimNumber ? [["Claim Number", job.claimNumber] as [string, string]] : []),
+    ["Date", formatDate(estimate.createdAt)],
+    ...(type !== "consumer" && estimate.priceDate
+      ? [["Price Date", formatDate(estimate.priceDate)] as [string, string]]
+      : []),
+  ]);
+  writer.spacer(10);
+
+  if (type === "consumer") {
+    writeConsumerBody(writer, items, estimate);
+  } else if (type === "contractor") {
+    writeContractorBody(writer, items, estimate);
+  } else {
+    writeMaterialBody(writer, items);
+  }
+
+  writer.spacer(16);
+  writer.text("Terms", { bold: true, size: 11 });
+  writer.text(branding.terms || DEFAULT_TERMS[type], { size: 9 });
+
+  if (type === "consumer") {
+    writer.spacer(24);
+    writer.text("Accepted by: ______________________________      Date: ______________");
+  }
+
+  return writer.save();
+}
+
+/**
+ * Scope of work grouped by category, with the total price only
+ */
+function writeConsumerBody(writer: PdfWriter, items: PricedItem[], estimate: Estimate): void {
+  writer.text("Scope of Work", { bold: true, size: 12 });
+  writer.spacer(4);
+
+  writer.table(
+    [
+      { header: "Description", width: 0.6 },
+      { header: "Category", width: 0.2 },
+      { header: "Quantity", width: 0.2, align: "right" },
+    ],
+    sortByCategory(items).map((item) => [
+      item.description,
+      formatCategory(item.category),
+      `${formatQuantity(item.quantity)} ${item.unit}`,
+    ])
+  );
+
+  const salesTax = Number(estimate.salesTax);
+
+  writer.spacer(12);
+  writer.keyValues(
+    [
+      ...(salesTax > 0
+        ? [
+            ["Subtotal", formatCurrency(Number(estimate.totalPrice) - salesTax)] as [string, string],
+            [salesTaxLabel(estimate), formatCurrency(salesTax)] as [string, string],
+          ]
+        : []),
+      ["Total Price", formatCurrency(Number(estimate.totalPrice))],
+    ],
+    12
+  );
+}
+
+/**
+ * Full cost breakdown per item, then overhead, profit and margin
+ */
+function writeContractorBody(writer: PdfWriter, items: PricedItem[], estimate: Estimate): void {
+  const columns: TableColumn[] = [
+    { header: "Description", width: 0.34 },
+    { header: "Qty", width: 0.11, align: "right" },
+    { header: "Supplier", width: 0.12 },
+    { header: "Unit Cost", width: 0.13, align: "right" },
+    { header: "Ext. Cost", width: 0.15, align: "right" },
+    { header: "RCV", width: 0.15, align: "right" },
+  ];
+
+  writer.table(
+    columns,
+    sortByCategory(items).map((item) => [
+      item.matched ? item.description : `${item.description} (unmatched - estimated)`,
+      item.supplierQuantity !== undefined
+        ? `${formatQuantity(item.quantity)} ${item.unit} = ${item.supplierQuantity} ${formatUnit(item.supplierUnit)}`
+        : `${formatQuantity(item.quantity)} ${item.unit}`,
+      item.supplier || "—",
+      item.unitPrice !== undefined ? formatCurrency(item.unitPrice) : "—",
+      formatCurrency(item.totalPrice ?? 0),
+      item.rcv !== null ? formatCurrency(item.rcv) : "—",
+    ])
+  );
+
+  const totalPrice = Number(estimate.totalPrice);
+  const profit = Number(estimate.profit);
+  const rcv = items.reduce((sum, item) => sum + (item.rcv || 0), 0);
+
+  writer.spacer(12);
+  writer.keyValues([
+    ["Material Cost", formatCurrency(Number(estimate.materialCost))],
+    ["Labor Cost", formatCurrency(Number(estimate.laborCost))],
+    ["Overhead", formatCurrency(Number(estimate.overhead))],
+    ["Profit", formatCurrency(profit)],
+    [salesTaxLabel(estimate), formatCurrency(Number(estimate.salesTax))],
+    ["Total Price", formatCurrency(totalPrice)],
+    ["Margin", totalPrice > 0 ? `${((profit / totalPrice) * 100).toFixed(1)}%` : "—"],
+    ["Insurance RCV", formatCurrency(rcv)],
+    ...(estimate.supplierUsed
+      ? [["Primary Supplier", estimate.supplierUsed] as [string, string]]
+      : []),
+  ]);
+}
+
+/**
+ * Materials only, with SKUs and supplier pricing for ordering
+ */
+function writeMaterialBody(writer: PdfWriter, items: PricedItem[]): void {
+  const materials = items.filter((item) => item.supplier !== "labor");
+
+  writer.table(
+    [
+      { header: "Description", width: 0.36 },
+      { header: "SKU", width: 0.14 },
+      { header: "Supplier", width: 0.12 },
+      { header: "Qty", width: 0.12, align: "right" },
+      { header: "Unit Price", width: 0.12, align: "right" },
+      { header: "Extended", width: 0.14, align: "right" },
+    ],
+    sortByCategory(materials).map((item) => [
+      item.productName || item.description,
+      item.sku || "—",
+      item.supplier || "—",
+      item.supplierQuantity !== undefined
+        ? `${item.supplierQuantity} ${formatUnit(item.supplierUnit)}`
+        : `${formatQuantity(item.quantity)} ${item.unit}`,
+      item.unitPrice !== undefined ? formatCurrency(item.unitPrice) : "—",
+      formatCurrency(item.totalPrice ?? 0),
+    ])
+  );
+
+  const total = materials.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
+
+  writer.spacer(12);
+  writer.keyValues([["Material Total", formatCurrency(total)]], 12);
+}
+
+function salesTaxLabel(estimate: Estimate): string {
+  const rate = (estimate.pricingRates as { salesTaxRate?: number } | null)?.salesTaxRate;
+  return rate ? `Sales Tax (${(rate * 100).toFixed(3).replace(/\.?0+$/, "")}%)` : "Sales Tax";
+}
+
+function sortByCategory(items: PricedItem[]): PricedItem[] {
+  return [...items].sort((a, b) => a.category.localeCompare(b.category));
+}
+
+function formatCategory(category: string): string {
+  return category.charAt(0).toUpperCase() + category.slice(1).replace(/_/g, " ");
+}
+
+function formatUnit(unit: string | undefined): string {
+  return (unit || "").replace(/_/g, " ");
+}
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+}
@@ -0,0 +1,263 @@
+/**
+ * Estimate Versioning
+ *
+ * Estimates are immutable; estimator edits (swap product, override unit price,
+ * change quantity, add or remove items) produce a new version linked to the
+ * one it was edited from. Labor from the rate table follows the quantities
+ * it was figured from. Any two versions can be diffed by item.
+ */
+
+import { randomUUID } from "crypto";
+import { applyConversionFactor, convertToSupplierUnits } from "@/lib/pricing/units";
+import { laborQuantities, type LaborRateType } from "@/lib/pricing/labor";
+import type { PricedItem } from "@/lib/pricing/calculator";
+import type { ProductCatalog } from "@prisma/client";
+
+export type EstimateEdit =
+  | { type: "set_quantity"; itemId: string; quantity: number }
+  | { type: "override_unit_price"; itemId: string; unitPrice: number }
+  | {
+      type: "swap_product";
+      itemId: string;
+      product: Pick<ProductCatalog, "id" | "name" | "category" | "unitOfMeasure" | "coveragePerUnit">;
+      unitPrice: number;
+      supplier: string;
+      sku?: string;
+    }
+  | {
+      type: "add_item";
+      item: {
+        category: string;
+        description: string;
+        quantity: number;
+        unit: string;
+        unitPrice: number;
+        supplier?: string;
+      };
+    }
+  | { type: "remove_item"; itemId: string };
+
+export interface EstimateTotals {
+  materialCost: number;
+  laborCost: number;
+  overhead: number;
+  profit: number;
+  salesTax: number;
+  totalPrice: number;
+}
+
+export type ItemChange = "added" | "removed" | "changed" | "unchanged";
+
+export interface ItemDiff {
+  itemId: string;
+  description: string;
+  change: ItemChange;
+  quantity: { from: number | null; to: number | null; delta: number };
+  unitPrice: { from: number | null; to: number | null };
+  totalPrice: { from: number; to: number; delta: number };
+  product?: { from: string | null; to: string | null };
+  supplier?: { from: string | null; to: string | null };
+}
+
+export interface EstimateDiff {
+  items: ItemDiff[];
+  totals: Record<keyof EstimateTotals, { from: number; to: number; delta: number }>;
+}
+
+// Which installed quantity each kind of rate-table labor is figured from
+const LABOR_BASIS: Record<LaborRateType, keyof ReturnType<typeof laborQuantities>> = {
+  install: "squares",
+  tear_off: "squares",
+  steep: "squares",
+  high: "squares",
+  flashing: "flashing",
+  penetration: "penetrations",
+};
+
+/**
+ * Apply edits to a copy of an estimate's priced items
+ */
+export function applyEstimateEdits(items: PricedItem[], edits: EstimateEdit[]): PricedItem[] {
+  let result = items.map((item) => ({ ...item }));
+
+  for (const edit of edits) {
+    if (edit.type === "add_item") {
+      if (edit.item.quantity <= 0) {
+        throw new Error("Quantity must be greater than zero");
+      }
+
+      result.push({
+        id: randomUUID(),
+        category: edit.item.category,
+        description: edit.item.description,
+        quantity: edit.item.quantity,
+        unit: edit.item.unit,
+        rcv: null,
+        matched: false,
+        unitPrice: edit.item.unitPrice,
+        totalPrice: round2(edit.item.unitPrice * edit.item.quantity),
+        supplier: edit.item.supplier,
+        custom: true,
+        priceOverridden: true,
+      });
+      continue;
+    }
+
+    const item = result.find((i) => i.id === edit.itemId);
+    if (!item) {
+      throw new Error("Estimate item not found");
+    }
+
+    switch (edit.type) {
+      case "remove_item":
+        result = result.filter((i) => i.id !== edit.itemId);
+        break;
+
+      case "set_quantity":
+        if (edit.quantity <= 0) {
+          throw new Error("Quantity must be greater than zero");
+        }
+        if (item.conversionFactor !== undefined) {
+          item.supplierQuantity = applyConversionFactor(edit.quantity, item.conversionFactor);
+        }
+        // Unpriced items scale their estimated cost with quantity, when there
+        // was a quantity to scale from
+        if (item.unitPrice !== undefined) {
+          item.totalPrice = round2(item.unitPrice * (item.supplierQuantity ?? edit.quantity));
+        } else if (item.quantity > 0) {
+          item.totalPrice = round2(((item.totalPrice || 0) / item.quantity) * edit.quantity);
+        }
+        item.quantity = edit.quantity;
+        break;
+
+      case "override_unit_price":
+        if (edit.unitPrice < 0) {
+          throw new Error("Unit price cannot be negative");
+        }
+        item.unitPrice = edit.unitPrice;
+        item.totalPrice = round2(edit.unitPrice * (item.supplierQuantity ?? item.quantity));
+        item.priceOverridden = true;
+        break;
+
+      case "swap_product": {
+        const conversion = convertToSupplierUnits(item.quantity, item.unit, edit.product);
+        item.productId = edit.product.id;
+        item.productName = edit.product.name;
+        item.matched = true;
+        item.supplierQuantity = conversion.supplierQuantity;
+        item.supplierUnit = conversion.supplierUnit;
+        item.conversionFactor = conversion.factor;
+        item.unitPrice = edit.unitPrice;
+        item.totalPrice = round2(edit.unitPrice * conversion.supplierQuantity);
+        item.supplier = edit.supplier;
+        item.sku = edit.sku;
+        item.priceOverridden = false;
+        break;
+      }
+    }
+  }
+
+  const editedIds = new Set(edits.map((edit) => (edit.type === "add_item" ? null : edit.itemId)));
+  return rescaleLabor(items, result, editedIds);
+}
+
+/**
+ * Scale rate-table labor lines with the installed quantities they were figured
+ * from, e.g. install labor with the squares of shingles. Lines edited directly
+ * are left as the estimator set them.
+ */
+function rescaleLabor(before: PricedItem[], after: PricedItem[], editedIds: Set<string | null>): PricedItem[] {
+  const installed = (items: PricedItem[]) => laborQuantities(items.filter((item) => item.supplier !== "labor"));
+  const from = installed(before);
+  const to = installed(after);
+
+  return after.map((item) => {
+    const type = item.id.match(/^labor-([a-z_]+)-\d+$/)?.[1] as LaborRateType | undefined;
+    const basis = type && LABOR_BASIS[type];
+    if (!basis || editedIds.has(item.id) || from[basis] === to[basis] || from[basis] <= 0) {
+      return item;
+    }
+
+    const quantity = round2(item.quantity * (to[basis] / from[basis]));
+    return {
+      ...item,
+      quantity,
+      totalPrice: round2((item.unitPrice ?? 0) * quantity),
+    };
+  });
+}
+
+/**
+ * Diff two versions of an estimate by item
+ */
+export function diffEstimates(
+  from: { items: PricedItem[]; totals: EstimateTotals },
+  to: { items: PricedItem[]; totals: EstimateTotals }
+): EstimateDiff {
+  const fromItems = new Map(from.items.map((item) => [item.id, item]));
+  const toItems = new Map(to.items.map((item) => [item.id, item]));
+  const ids = [...new Set([...fromItems.keys(), ...toItems.keys()])];
+
+  const items = ids.map((id): ItemDiff => {
+    const before = fromItems.get(id);
+    const after = toItems.get(id);
+    const beforeTotal = before?.totalPrice || 0;
+    const afterTotal = after?.totalPrice || 0;
+
+    const change: ItemChange = !before
+      ? "added"
+      : !after
+      ? "removed"
+      : before.quantity !== after.quantity ||
+        before.unitPrice !== after.unitPrice ||
+        beforeTotal !== afterTotal ||
+        before.productId !== after.productId ||
+        before.supplier !== after.supplier
+      ? "changed"
+      : "unchanged";
+
+    const diff: ItemDiff = {
+      itemId: id,
+      description: (after || before)!.description,
+      change,
+      quantity: {
+        from: before?.quantity ?? null,
+        to: after?.quantity ?? null,
+        delta: round2((after?.quantity || 0) - (before?.quantity || 0)),
+      },
+      unitPrice: {
+        from: before?.unitPrice ?? null,
+        to: after?.unitPrice ?? null,
+      },
+      totalPrice: {
+        from: beforeTotal,
+        to: afterTotal,
+        delta: round2(afterTotal - beforeTotal),
+      },
+    };
+
+    if (before && after && before.productId !== after.productId) {
+      diff.product = { from: before.productName ?? null, to: after.productName ?? null };
+    }
+    if (before && after && before.supplier !== after.supplier) {
+      diff.supplier = { from: before.supplier ?? null, to: after.supplier ?? null };
+    }
+
+    return diff;
+  });
+
+  const totals = {} as EstimateDiff["totals"];
+  for (const key of Object.keys(from.totals) as (keyof EstimateTotals)[]) {
+    totals[key] = {
+      from: from.totals[key],
+      to: to.totals[key],
+      delta: round2(to.totals[key] - from.totals[key]),
+    };
+  }
+
+  return { items, totals };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
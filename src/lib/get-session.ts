@@ -1,21 +1,40 @@
 "use server";
 
-import { DEV_USER } from "./dev-session";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { getDevSession, isDevAuthBypassEnabled } from "./dev-session";
 
-// For development, always return the dev user session
-// In production, this would call auth() from next-auth
+/**
+ * The signed-in user's session. Throws when nobody is signed in, so server
+ * actions never run without an organization. A deactivated user's session
+ * stops working right away rather than when its token expires.
+ */
 export async function getSession() {
-  // DEV MODE: Always return dev session
-  return {
-    user: DEV_USER,
-    expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-  };
+  if (isDevAuthBypassEnabled()) {
+    return getDevSession();
+  }
+
+  const session = await auth();
+  if (!session?.user?.id || !session.user.organizationId) {
+    throw new Error("Unauthorized");
+  }
+
+  const active = await prisma.user.count({
+    where: { id: session.user.id, organizationId: session.user.organizationId, deactivatedAt: null },
+  });
+  if (!active) {
+    throw new Error("Unauthorized");
+  }
+
+  return session;
 }
 
 export async function getOrganizationId(): Promise<string> {
-  return DEV_USER.organizationId;
+  const session = await getSession();
+  return session.user.organizationId;
 }
 
 export async function getUserId(): Promise<string> {
-  return DEV_USER.id;
+  const session = await getSession();
+  return session.user.id;
 }
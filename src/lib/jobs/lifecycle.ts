@@ -0,0 +1,189 @@
+/**
+ * Job Lifecycle
+ *
+ * The statuses a job moves through from intake to close-out, which moves are
+ * allowed from each, and the guard rules a job must pass to enter a status
+ * (e.g. no scheduling without an accepted estimate). Every change is recorded
+ * in the job's status history with who made it.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { claimLedger } from "@/lib/claims/ledger";
+import { formatCurrency } from "@/lib/utils";
+import type { Job, JobStatusHistory } from "@prisma/client";
+
+export const JOB_STATUSES = [
+  "draft",
+  "analyzing",
+  "ready",
+  "supplement_pending",
+  "approved",
+  "scheduled",
+  "in_progress",
+  "completed",
+  "closed",
+  "lost",
+  "canceled",
+] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  draft: "Draft",
+  analyzing: "Analyzing",
+  ready: "Ready",
+  supplement_pending: "Supplement Pending",
+  approved: "Approved",
+  scheduled: "Scheduled",
+  in_progress: "In Progress",
+  completed: "Completed",
+  closed: "Closed",
+  lost: "Lost",
+  canceled: "Canceled",
+};
+
+// Allowed moves from each status
+export const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  draft: ["analyzing", "ready", "lost", "canceled"],
+  analyzing: ["ready", "draft", "canceled"],
+  ready: ["analyzing", "supplement_pending", "approved", "lost", "canceled"],
+  supplement_pending: ["ready", "approved", "lost", "canceled"],
+  approved: ["supplement_pending", "scheduled", "lost", "canceled"],
+  scheduled: ["approved", "in_progress", "canceled"],
+  in_progress: ["supplement_pending", "completed", "canceled"],
+  completed: ["in_progress", "closed"],
+  closed: [],
+  lost: ["ready"],
+  canceled: [],
+};
+
+export interface TransitionOptions {
+  actorId?: string | null; // Null for system changes
+  note?: string;
+  ifStatus?: JobStatus; // Only move a job still in this status; otherwise leave it
+}
+
+export class JobLifecycle {
+  /**
+   * Move a job to a new status, checking the transition and its guards
+   */
+  async transition(jobId: string, to: JobStatus, options: TransitionOptions = {}): Promise<Job | null> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new Error("Job not found");
+    }
+
+    if (options.ifStatus && job.status !== options.ifStatus) {
+      return null;
+    }
+
+    const from = job.status as JobStatus;
+    if (from === to) {
+      return job;
+    }
+
+    if (!canTransition(from, to)) {
+      throw new Error(`Cannot move a job from ${JOB_STATUS_LABELS[from] ?? from} to ${JOB_STATUS_LABELS[to]}`);
+    }
+
+    const blocked = await this.checkGuard(job, to);
+    if (blocked) {
+      throw new Error(blocked);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      // Fails if another change moved the job first
+      const { count } = await tx.job.updateMany({
+        where: { id: jobId, status: from },
+        data: { status: to },
+      });
+
+      if (count === 0) {
+        throw new Error("Job status changed while updating, try again");
+      }
+
+      await tx.jobStatusHistory.create({
+        data: {
+          jobId,
+          fromStatus: from,
+          toStatus: to,
+          changedById: options.actorId ?? null,
+          note: options.note,
+        },
+      });
+
+      return tx.job.findUniqueOrThrow({ where: { id: jobId } });
+    });
+  }
+
+  /**
+   * Statuses a job can move to right now, with the reason for any that are
+   * blocked by a guard
+   */
+  async availableTransitions(job: Job): Promise<{ status: JobStatus; blockedBy: string | null }[]> {
+    const targets = JOB_TRANSITIONS[job.status as JobStatus] || [];
+
+    return Promise.all(
+      targets.map(async (status) => ({ status, blockedBy: await this.checkGuard(job, status) }))
+    );
+  }
+
+  /**
+   * A job's status changes, newest first
+   */
+  async getHistory(jobId: string): Promise<(JobStatusHistory & { changedBy: { id: string; name: string | null; email: string } | null })[]> {
+    return prisma.jobStatusHistory.findMany({
+      where: { jobId },
+      include: { changedBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Why a job can't enter a status, or null if it can
+   */
+  private async checkGuard(job: Job, to: JobStatus): Promise<string | null> {
+    switch (to) {
+      case "supplement_pending": {
+        const sent = await prisma.supplement.count({
+          where: { jobId: job.id, status: "sent" },
+        });
+        return sent > 0 ? null : "Send a supplement to the carrier first";
+      }
+
+      case "scheduled": {
+        // Any accepted estimate, as for purchase orders: the homeowner may
+        // accept the consumer estimate rather than the contractor one
+        const accepted = await prisma.estimate.count({
+          where: { jobId: job.id, status: "accepted" },
+        });
+        return accepted > 0 ? null : "A job can't be scheduled without an accepted estimate";
+      }
+
+      case "closed": {
+        const ledger = await claimLedger.getLedger(job.id);
+        return ledger.totals.outstanding > 0
+          ? `${formatCurrency(ledger.totals.outstanding)} is still owed on this job`
+          : null;
+      }
+
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Whether a status can move directly to another
+ */
+export function canTransition(from: string, to: JobStatus): boolean {
+  return (JOB_TRANSITIONS[from as JobStatus] || []).includes(to);
+}
+
+export function isJobStatus(value: string): value is JobStatus {
+  return (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+// Export singleton instance
+export const jobLifecycle = new JobLifecycle();
@@ -0,0 +1,29 @@
+/**
+ * PDF Text Layer Extraction
+ *
+ * Digitally generated scopes (Xactimate, Symbility exports) carry an embedded
+ * text layer, which is exact and free - no OCR needed for those pages.
+ */
+
+import { extractText } from "unpdf";
+
+// Pages with less embedded text than this are treated as scanned
+const MIN_TEXT_LAYER_CHARS = 50;
+
+/**
+ * Extract the embedded text of each page. Returns null for pages that have
+ * no usable text layer.
+ */
+export async function extractPdfTextLayer(fileBuffer: Buffer): Promise<(string | null)[]> {
+  try {
+    // pdf.js takes ownership of the buffer it is given, so pass a copy
+    const { text } = await extractText(new Uint8Array(fileBuffer), { mergePages: false });
+
+    return text.map((pageText) =>
+      pageText.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS ? pageText : null
+    );
+  } catch (error) {
+    console.error("PDF text layer extraction failed:", error);
+    return [];
+  }
+}
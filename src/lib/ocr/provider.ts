@@ -0,0 +1,75 @@
+/**
+ * OCR Provider Interface & Registry
+ *
+ * Every OCR backend implements OcrProvider and registers itself here.
+ * Organizations choose a preferred provider; the other configured providers
+ * act as fallbacks for pages it fails to recognize.
+ */
+
+import type { OcrPage } from "@/lib/agentcore/pipeline/pages";
+import { mistralProvider } from "./providers/mistral";
+import { textractProvider } from "./providers/textract";
+import { tesseractProvider } from "./providers/tesseract";
+
+export type OcrProviderName = "mistral" | "textract" | "tesseract";
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  /**
+   * Whether credentials/binaries needed by this provider are available
+   */
+  isConfigured(): boolean;
+  /**
+   * Recognize a single page. `page` is a single-page PDF or an image.
+   * Returned confidence is 0-1, or undefined when the backend reports none.
+   */
+  recognizePage(page: Buffer, mimeType: string, pageNumber: number): Promise<OcrPage>;
+}
+
+const registry = new Map<OcrProviderName, OcrProvider>([
+  [mistralProvider.name, mistralProvider],
+  [textractProvider.name, textractProvider],
+  [tesseractProvider.name, tesseractProvider],
+]);
+
+/**
+ * Register an OCR provider
+ */
+export function registerOcrProvider(provider: OcrProvider): void {
+  registry.set(provider.name, provider);
+}
+
+/**
+ * Get a registered provider by name
+ */
+export function getOcrProvider(name: string): OcrProvider | undefined {
+  return registry.get(name as OcrProviderName);
+}
+
+/**
+ * List all registered providers
+ */
+export function listOcrProviders(): OcrProvider[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * The configured providers in the order to try them: the organization's
+ * preference, then the OCR_PROVIDER default, then any other configured provider
+ */
+export function selectOcrProviders(preferred?: string | null): OcrProvider[] {
+  const preferredProviders = [preferred, process.env.OCR_PROVIDER, "mistral"]
+    .filter((name): name is string => !!name)
+    .map((name) => getOcrProvider(name))
+    .filter((provider): provider is OcrProvider => !!provider);
+
+  const providers = Array.from(new Set([...preferredProviders, ...listOcrProviders()])).filter((p) =>
+    p.isConfigured()
+  );
+
+  if (providers.length === 0) {
+    throw new Error("No OCR provider is configured");
+  }
+
+  return providers;
+}
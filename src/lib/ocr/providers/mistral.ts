@@ -0,0 +1,62 @@
+/**
+ * Mistral OCR Provider
+ *
+ * Uses Pixtral vision to transcribe a page. Pixtral only reads raster
+ * images, so PDF pages are rendered to PNG first. Mistral does not report
+ * recognition confidence, so pages come back without one.
+ */
+
+import type { OcrProvider } from "../provider";
+import { rasterizePage } from "../rasterize";
+
+export const mistralProvider: OcrProvider = {
+  name: "mistral",
+
+  isConfigured() {
+    return !!process.env.MISTRAL_API_KEY;
+  },
+
+  async recognizePage(page, mimeType, pageNumber) {
+    const { image, mimeType: imageType } = await rasterizePage(page, mimeType);
+
+    const response = await fetch("https://api.mistral.ai/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${process.env.MISTRAL_API_KEY}`,
+      },
+      body: JSON.stringify({
+        model: "pixtral-large-latest",
+        messages: [
+          {
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: "Extract all text from this document page. Preserve the structure and formatting as much as possible. Include all numbers, measurements, and line items.",
+              },
+              {
+                type: "image_url",
+                image_url: {
+                  url: `data:${imageType};base64,${image.toString("base64")}`,
+                },
+              },
+            ],
+          },
+        ],
+        max_tokens: 8192,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mistral OCR failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    return {
+      pageNumber,
+      text: data.choices?.[0]?.message?.content || "",
+    };
+  },
+};
@@ -0,0 +1,39 @@
+/**
+ * Tesseract OCR Provider
+ *
+ * Offline OCR via tesseract.js. PDF pages are rasterized first since
+ * Tesseract only reads images. Set TESSERACT_LANG_PATH to a local directory
+ * containing eng.traineddata to run without network access.
+ */
+
+import { createWorker } from "tesseract.js";
+import type { OcrProvider } from "../provider";
+import { rasterizePage } from "../rasterize";
+
+export const tesseractProvider: OcrProvider = {
+  name: "tesseract",
+
+  isConfigured() {
+    return process.env.TESSERACT_ENABLED === "true";
+  },
+
+  async recognizePage(page, mimeType, pageNumber) {
+    const { image } = await rasterizePage(page, mimeType);
+
+    const worker = await createWorker("eng", undefined, {
+      ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {}),
+    });
+
+    try {
+      const { data } = await worker.recognize(image);
+
+      return {
+        pageNumber,
+        text: data.text,
+        confidence: data.confidence / 100,
+      };
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * AWS Textract OCR Provider
+ *
+ * Synchronous DetectDocumentText on a single page (PDF, PNG or JPEG).
+ * Page confidence is the mean of Textract's per-line confidence.
+ */
+
+import { TextractClient, DetectDocumentTextCommand } from "@aws-sdk/client-textract";
+import type { OcrProvider } from "../provider";
+
+const textractClient = new TextractClient({
+  region: process.env.AWS_REGION || "us-east-1",
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  },
+});
+
+export const textractProvider: OcrProvider = {
+  name: "textract",
+
+  isConfigured() {
+    return !!process.env.AWS_ACCESS_KEY_ID && !!process.env.AWS_SECRET_ACCESS_KEY;
+  },
+
+  async recognizePage(page, _mimeType, pageNumber) {
+    const command = new DetectDocumentTextCommand({
+      Document: { Bytes: page },
+    });
+
+    const response = await textractClient.send(command);
+
+    const lines = (response.Blocks || []).filter(
+      (block) => block.BlockType === "LINE" && block.Text
+    );
+
+    const confidence =
+      lines.length > 0
+        ? lines.reduce((sum, line) => sum + (line.Confidence ?? 0), 0) / lines.length / 100
+        : undefined;
+
+    return {
+      pageNumber,
+      text: lines.map((line) => line.Text).join("\n"),
+      confidence,
+    };
+  },
+};
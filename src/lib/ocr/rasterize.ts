@@ -0,0 +1,27 @@
+/**
+ * Page Rasterization
+ *
+ * Split scope pages are single-page PDFs, but vision and OCR backends only
+ * read images. Renders a PDF page to PNG; images pass through unchanged.
+ */
+
+import { renderPageAsImage } from "unpdf";
+
+// Render at 2x for legible small print in scope tables
+const RENDER_SCALE = 2;
+
+/**
+ * The page as an image the OCR backend can read
+ */
+export async function rasterizePage(page: Buffer, mimeType: string): Promise<{ image: Buffer; mimeType: string }> {
+  if (mimeType !== "application/pdf") {
+    return { image: page, mimeType };
+  }
+
+  const image = await renderPageAsImage(new Uint8Array(page), 1, {
+    canvasImport: () => import("@napi-rs/canvas"),
+    scale: RENDER_SCALE,
+  });
+
+  return { image: Buffer.from(image), mimeType: "image/png" };
+}
@@ -0,0 +1,115 @@
+/**
+ * Document Recognition
+ *
+ * Turns a stored file into page-indexed text: PDF pages with a text layer are
+ * read directly, everything else goes through the selected OCR provider. A
+ * page the provider fails on is retried with the next configured one.
+ */
+
+import {
+  mapWithConcurrency,
+  splitPdfPages,
+  stitchPages,
+  type OcrPage,
+  type PageSpan,
+} from "@/lib/agentcore/pipeline/pages";
+import { extractPdfTextLayer } from "./pdf-text";
+import { selectOcrProviders, type OcrProvider } from "./provider";
+
+// Maximum pages OCR'd in parallel per document
+const OCR_PAGE_CONCURRENCY = Number(process.env.OCR_PAGE_CONCURRENCY) || 4;
+
+export interface OcrResult {
+  text: string;
+  pageIndex: PageSpan[];
+  pages: OcrPage[];
+  provider: string;
+  confidence: number | null; // Mean page confidence, null if no page reported one
+}
+
+/**
+ * Recognize all pages of a document
+ */
+export async function recognizeDocument(
+  fileBuffer: Buffer,
+  mimeType: string,
+  options: { provider?: string | null } = {}
+): Promise<OcrResult> {
+  // Plain text files are read directly
+  if (mimeType !== "application/pdf" && !mimeType.startsWith("image/")) {
+    const pages = [
+      { pageNumber: 1, text: fileBuffer.toString("utf-8"), confidence: 1, provider: "direct" },
+    ];
+    return buildResult(pages);
+  }
+
+  // Images are a single page
+  if (mimeType.startsWith("image/")) {
+    const page = await recognizeWithFallback(selectOcrProviders(options.provider), fileBuffer, mimeType, 1);
+    return buildResult([page]);
+  }
+
+  const [pageBuffers, textLayer] = await Promise.all([
+    splitPdfPages(fileBuffer),
+    extractPdfTextLayer(fileBuffer),
+  ]);
+
+  // Only resolve an OCR provider if some page actually needs one
+  const needsOcr = pageBuffers.some((_, i) => !textLayer[i]);
+  const providers = needsOcr ? selectOcrProviders(options.provider) : [];
+
+  const pages = await mapWithConcurrency(pageBuffers, OCR_PAGE_CONCURRENCY, async (page, i) => {
+    const embedded = textLayer[i];
+    if (embedded) {
+      return { pageNumber: i + 1, text: embedded, confidence: 1, provider: "pdf_text" };
+    }
+
+    return recognizeWithFallback(providers, page, mimeType, i + 1);
+  });
+
+  return buildResult(pages);
+}
+
+/**
+ * Recognize a page with the first provider that succeeds
+ */
+async function recognizeWithFallback(
+  providers: OcrProvider[],
+  page: Buffer,
+  mimeType: string,
+  pageNumber: number
+): Promise<OcrPage> {
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    try {
+      const recognized = await provider.recognizePage(page, mimeType, pageNumber);
+      return { ...recognized, provider: provider.name };
+    } catch (error) {
+      console.error(`OCR of page ${pageNumber} with ${provider.name} failed:`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Stitch pages and summarize provider and confidence across them
+ */
+function buildResult(pages: OcrPage[]): OcrResult {
+  const providers = Array.from(new Set(pages.map((p) => p.provider || "unknown"))).sort();
+
+  const scored = pages.filter((p) => p.confidence !== undefined);
+  const confidence =
+    scored.length > 0
+      ? scored.reduce((sum, p) => sum + (p.confidence ?? 0), 0) / scored.length
+      : null;
+
+  return {
+    ...stitchPages(pages),
+    pages,
+    provider: providers.join("+"),
+    confidence,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * PDF Branding
+ *
+ * Loads an organization's name, logo, color and contact details and writes
+ * the letterhead at the top of generated documents.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { downloadFromS3 } from "@/lib/s3/client";
+import { PdfWriter, COLORS, hexColor } from "./writer";
+import type { RGB } from "pdf-lib";
+
+export interface Branding {
+  name: string;
+  color: RGB;
+  logo: { bytes: Uint8Array; mimeType: string } | null;
+  contactLines: string[];
+  terms: string | null;
+}
+
+/**
+ * Load branding for an organization
+ */
+export async function loadBranding(organizationId: string): Promise<Branding> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+  });
+
+  if (!organization) {
+    throw new Error("Organization not found");
+  }
+
+  let logo: Branding["logo"] = null;
+  if (organization.logoS3Key) {
+    try {
+      const bytes = await downloadFromS3(organization.logoS3Key);
+      const mimeType = /\.png$/i.test(organization.logoS3Key) ? "image/png" : "image/jpeg";
+      logo = { bytes: new Uint8Array(bytes), mimeType };
+    } catch (error) {
+      // A missing logo shouldn't block the document
+      console.error("Logo download failed:", error);
+    }
+  }
+
+  return {
+    name: organization.name,
+    color: hexColor(organization.brandColor),
+    logo,
+    contactLines: [
+      organization.address,
+      [organization.phone, organization.email, organization.website].filter(Boolean).join("  •  "),
+      organization.licenseNumber ? `License #${organization.licenseNumber}` : null,
+    ].filter((line): line is string => !!line),
+    terms: organization.estimateTerms,
+  };
+}
+
+/**
+ * Write the letterhead: logo, organization name and contact details
+ */
+export async function writeLetterhead(writer: PdfWriter, branding: Branding): Promise<void> {
+  if (branding.logo) {
+    try {
+      await writer.image(branding.logo.bytes, branding.logo.mimeType);
+    } catch (error) {
+      console.error("Logo embed failed:", error);
+    }
+  }
+
+  writer.text(branding.name, { size: 14, bold: true, color: branding.color });
+  for (const line of branding.contactLines) {
+    writer.text(line, { size: 9, color: COLORS.muted });
+  }
+
+  writer.rule();
+  writer.spacer(6);
+}
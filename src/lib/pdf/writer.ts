@@ -0,0 +1,346 @@
+/**
+ * PDF Writer
+ *
+ * Small flowing-layout helper over pdf-lib for the documents we generate
+ * (supplements, estimates, purchase orders): headings, wrapped paragraphs and
+ * tables that break across pages and repeat their header row.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+
+const PAGE_WIDTH = 612; // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_GAP = 4;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  align?: "left" | "right" | "center";
+}
+
+export interface TableColumn {
+  header: string;
+  width: number; // Fraction of the content width
+  align?: "left" | "right";
+}
+
+export const COLORS = {
+  text: rgb(0.1, 0.1, 0.1),
+  muted: rgb(0.45, 0.45, 0.45),
+  rule: rgb(0.8, 0.8, 0.8),
+  headerFill: rgb(0.93, 0.94, 0.96),
+};
+
+export class PdfWriter {
+  private page: PDFPage;
+  private y: number;
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly boldFont: PDFFont,
+    private readonly footer?: string
+  ) {
+    this.page = this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Create a writer with an optional footer printed on every page
+   */
+  static async create(options: { title?: string; footer?: string } = {}): Promise<PdfWriter> {
+    const doc = await PDFDocument.create();
+    if (options.title) doc.setTitle(options.title);
+
+    const [font, boldFont] = await Promise.all([
+      doc.embedFont(StandardFonts.Helvetica),
+      doc.embedFont(StandardFonts.HelveticaBold),
+    ]);
+
+    return new PdfWriter(doc, font, boldFont, options.footer);
+  }
+
+  get contentWidth(): number {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  /**
+   * Large bold heading
+   */
+  heading(text: string, size = 18, color?: RGB): void {
+    this.text(text, { size, bold: true, color });
+    this.spacer(4);
+  }
+
+  /**
+   * PNG or JPEG image (e.g. a logo), scaled down to fit the box
+   */
+  async image(bytes: Uint8Array, mimeType: string, maxWidth = 160, maxHeight = 50): Promise<void> {
+    const image = mimeType === "image/png"
+      ? await this.doc.embedPng(bytes)
+      : await this.doc.embedJpg(bytes);
+
+    const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+
+    this.ensureSpace(height + LINE_GAP);
+    this.y -= height;
+    this.page.drawImage(image, { x: MARGIN, y: this.y, width, height });
+    this.y -= LINE_GAP;
+  }
+
+  /**
+   * A single line of text (wrapped if too long)
+   */
+  text(text: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.boldFont : this.font;
+
+    for (const line of this.wrap(text, font, size, this.contentWidth)) {
+      this.ensureSpace(size + LINE_GAP);
+      this.y -= size;
+      this.drawAligned(line, MARGIN, this.contentWidth, font, size, options.align, options.color);
+      this.y -= LINE_GAP;
+    }
+  }
+
+  /**
+   * Label/value pairs in two columns
+   */
+  keyValues(pairs: [string, string][], size = 10): void {
+    const labelWidth = this.contentWidth * 0.3;
+
+    for (const [label, value] of pairs) {
+      this.ensureSpace(size + LINE_GAP);
+      this.y -= size;
+      this.page.drawText(sanitize(label), {
+        x: MARGIN,
+        y: this.y,
+        size,
+        font: this.boldFont,
+        color: COLORS.muted,
+      });
+      this.page.drawText(sanitize(value), {
+        x: MARGIN + labelWidth,
+        y: this.y,
+        size,
+        font: this.font,
+        color: COLORS.text,
+      });
+      this.y -= LINE_GAP;
+    }
+  }
+
+  /**
+   * Table with wrapped cells; the header row repeats on each new page
+   */
+  table(columns: TableColumn[], rows: string[][], size = 9): void {
+    const widths = columns.map((c) => c.width * this.contentWidth);
+    const padding = 3;
+
+    const drawHeader = () => {
+      const height = size + padding * 2;
+      this.ensureSpace(height + size * 2);
+      this.page.drawRectangle({
+        x: MARGIN,
+        y: this.y - height,
+        width: this.contentWidth,
+        height,
+        color: COLORS.headerFill,
+      });
+      let x = MARGIN;
+      columns.forEach((column, i) => {
+        this.drawAligned(
+          column.header,
+          x + padding,
+          widths[i] - padding * 2,
+          this.boldFont,
+          size,
+          column.align,
+          COLORS.text,
+          this.y - padding - size + 1
+        );
+        x += widths[i];
+      });
+      this.y -= height;
+    };
+
+    drawHeader();
+
+    for (const row of rows) {
+      const cells = row.map((cell, i) => this.wrap(cell, this.font, size, widths[i] - padding * 2));
+      const lineCount = Math.max(1, ...cells.map((c) => c.length));
+      const height = lineCount * (size + LINE_GAP) + padding * 2;
+
+      if (this.y - height < MARGIN + 20) {
+        this.newPage();
+        drawHeader();
+      }
+
+      let x = MARGIN;
+      cells.forEach((lines, i) => {
+        lines.forEach((line, lineIndex) => {
+          this.drawAligned(
+            line,
+            x + padding,
+            widths[i] - padding * 2,
+            this.font,
+            size,
+            columns[i].align,
+            COLORS.text,
+            this.y - padding - size - lineIndex * (size + LINE_GAP) + 1
+          );
+        });
+        x += widths[i];
+      });
+
+      this.y -= height;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: MARGIN + this.contentWidth, y: this.y },
+        thickness: 0.5,
+        color: COLORS.rule,
+      });
+    }
+  }
+
+  /**
+   * Horizontal rule
+   */
+  rule(): void {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: MARGIN + this.contentWidth, y: this.y },
+      thickness: 0.75,
+      color: COLORS.rule,
+    });
+    this.y -= 4;
+  }
+
+  spacer(height = 10): void {
+    this.y -= height;
+    if (this.y < MARGIN) this.newPage();
+  }
+
+  /**
+   * Serialize the document
+   */
+  async save(): Promise<Uint8Array> {
+    return this.doc.save();
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + 20) {
+      this.newPage();
+    }
+  }
+
+  private newPage(): void {
+    this.page = this.addPage();
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private addPage(): PDFPage {
+    const page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+    if (this.footer) {
+      page.drawText(sanitize(this.footer), {
+        x: MARGIN,
+        y: MARGIN / 2,
+        size: 8,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    }
+
+    page.drawText(`Page ${this.doc.getPageCount()}`, {
+      x: PAGE_WIDTH - MARGIN - 40,
+      y: MARGIN / 2,
+      size: 8,
+      font: this.font,
+      color: COLORS.muted,
+    });
+
+    return page;
+  }
+
+  private drawAligned(
+    text: string,
+    x: number,
+    width: number,
+    font: PDFFont,
+    size: number,
+    align: TextOptions["align"] = "left",
+    color: RGB = COLORS.text,
+    y: number = this.y
+  ): void {
+    const clean = sanitize(text);
+    const textWidth = font.widthOfTextAtSize(clean, size);
+    const offset =
+      align === "right" ? width - textWidth : align === "center" ? (width - textWidth) / 2 : 0;
+
+    this.page.drawText(clean, { x: x + Math.max(0, offset), y, size, font, color });
+  }
+
+  /**
+   * Word-wrap text to a width, hard-breaking words longer than a line
+   */
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of sanitize(text).split("\n")) {
+      let current = "";
+
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          current = candidate;
+          continue;
+        }
+
+        if (current) lines.push(current);
+        current = word;
+
+        while (font.widthOfTextAtSize(current, size) > width && current.length > 1) {
+          let cut = current.length - 1;
+          while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), size) > width) cut--;
+          lines.push(current.slice(0, cut));
+          current = current.slice(cut);
+        }
+      }
+
+      lines.push(current);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * Parse a hex color such as "#1d4ed8", falling back to the default text color
+ */
+export function hexColor(hex: string | null | undefined): RGB {
+  const match = hex?.match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return COLORS.text;
+
+  return rgb(
+    parseInt(match[1], 16) / 255,
+    parseInt(match[2], 16) / 255,
+    parseInt(match[3], 16) / 255
+  );
+}
+
+/**
+ * Drop characters the standard (WinAnsi) fonts cannot encode
+ */
+function sanitize(text: string): string {
+  return text
+    .replace(/[≤]/g, "<=")
+    .replace(/[≥]/g, ">=")
+    .replace(/[^\x20-\x7E\xA0-\xFF\n–—‘’“”•]/g, "");
+}
@@ -0,0 +1,91 @@
+/**
+ * Permissions
+ *
+ * What each organization role may do. Members work jobs day to day; admins
+ * also delete records, handle claim money and manage the organization's
+ * settings and pricing; owners can do everything. Server actions check a
+ * permission before touching data, using the role stored on the user rather
+ * than the one in the session token, so role changes apply immediately.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/get-session";
+import { isDevAuthBypassEnabled } from "@/lib/dev-session";
+
+export type Role = "owner" | "admin" | "member";
+
+export type Permission =
+  | "jobs:write"      // Create and update jobs, documents, reconciliation and takeoffs
+  | "estimates:write" // Estimates, supplements and product matches
+  | "purchasing:write"
+  | "records:delete"  // Delete jobs, documents and estimates
+  | "claims:write"    // Record claim payments and depreciation recoverability
+  | "settings:write"  // Organization settings, suppliers, labor rates and price lists
+  | "audit:read"
+  | "users:manage"
+  | "billing:manage";
+
+const MEMBER_PERMISSIONS: Permission[] = ["jobs:write", "estimates:write", "purchasing:write"];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...MEMBER_PERMISSIONS,
+  "records:delete",
+  "claims:write",
+  "settings:write",
+  "audit:read",
+  "users:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  member: MEMBER_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  owner: [...ADMIN_PERMISSIONS, "billing:manage"],
+};
+
+export const ROLES = Object.keys(ROLE_PERMISSIONS) as Role[];
+
+/**
+ * Whether a role grants a permission
+ */
+export function can(role: string, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role as Role]?.includes(permission) ?? false;
+}
+
+/**
+ * The signed-in user's organization and role, throwing unless the role
+ * grants the permission
+ */
+export async function requirePermission(
+  permission: Permission
+): Promise<{ userId: string; organizationId: string; role: Role }> {
+  const current = await getCurrentUser();
+
+  if (!can(current.role, permission)) {
+    throw new Error("You don't have permission to do that");
+  }
+
+  return current;
+}
+
+/**
+ * The signed-in user's organization and current role. Throws for users who
+ * have been deactivated since signing in.
+ */
+export async function getCurrentUser(): Promise<{ userId: string; organizationId: string; role: Role }> {
+  const session = await getSession();
+  const { id: userId, organizationId } = session.user;
+
+  const user = await prisma.user.findFirst({
+    where: { id: userId, organizationId, deactivatedAt: null },
+    select: { role: true },
+  });
+
+  // The dev user may not be seeded
+  const role = user?.role ?? (isDevAuthBypassEnabled() ? session.user.role : null);
+
+  if (!role) {
+    throw new Error("Unauthorized");
+  }
+
+  return { userId, organizationId, role: role as Role };
+}
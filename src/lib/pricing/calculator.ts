@@ -2,44 +2,101 @@
  * Pricing Calculator
  *
  * Calculates material costs using multi-supplier pricing and generates estimates.
+ * Every estimate total follows one model: cost (materials + labor), then
+ * overhead on cost, then markup on cost plus overhead, then sales tax on the
+ * taxable price (materials, and labor where the state taxes it).
  */
 
 import { prisma } from "@/lib/prisma";
+import { productMatcher } from "./product-matcher";
+import { convertToSupplierUnits } from "./units";
+import { supplierPricing, type SupplierQuote } from "./supplier-prices";
+import { laborCalculator, type LaborContext } from "./labor";
+import { salesTaxEngine, type TaxJurisdiction } from "./sales-tax";
 import type { LineItem, ProductCatalog } from "@prisma/client";
 
 export interface PricedItem {
   id: string;
   category: string;
   description: string;
-  quantity: number;
+  quantity: number;         // Scope quantity, in the scope unit
   unit: string;
   rcv: number | null;
+  // Purchasable quantity in the supplier's unit (priced items only)
+  supplierQuantity?: number;
+  supplierUnit?: string;
+  conversionFactor?: number; // Supplier units per scope unit, waste included
   // Pricing info
   matched: boolean;
+  matchConfidence?: number;
   productId?: string;
   productName?: string;
-  unitPrice?: number;
+  unitPrice?: number;       // Per supplier unit when supplierQuantity is set
   totalPrice?: number;
   supplier?: string;
   sku?: string;
+  // Estimator edits
+  custom?: boolean;          // Added by hand, not from the scope
+  priceOverridden?: boolean; // Unit price set by hand instead of supplier pricing
+}
+
+export interface PricingRates {
+  overhead: number;       // Fraction of cost
+  materialMarkup: number; // Fraction of material cost plus its overhead
+  laborMarkup: number;    // Fraction of labor cost plus its overhead
+  salesTaxRate: number;   // Fraction of the taxable price
+  materialTaxable?: boolean; // Default true
+  laborTaxable?: boolean;    // Default false
+}
+
+export interface PriceBreakdown {
+  materialCost: number;
+  laborCost: number;
+  overhead: number;
+  profit: number;     // Markup on materials and labor
+  taxableAmount: number;
+  salesTax: number;
+  totalPrice: number; // Cost + overhead + profit + sales tax
+  rcv: number;        // Insurance RCV of the priced lines, for comparison
+  rates: PricingRates;
+}
+
+export interface SalesTaxLine {
+  jurisdiction: TaxJurisdiction;
+  rate: number;
+  taxableAmount: number;
+  amount: number;
 }
 
 export interface EstimateResult {
   items: PricedItem[];
-  totalMaterialCost: number;
-  totalLaborCost: number;
-  profit: number;
+  breakdown: PriceBreakdown;
+  tax: SalesTaxLine;
   primarySupplier: string;
   supplierBreakdown: Record<string, { count: number; total: number }>;
+  // Scope labor the rate table doesn't price (detach & reset, hourly work):
+  // its cost is left out of the totals until the estimator prices it
+  unpricedLabor: { itemId: string; description: string; quantity: number; unit: string; rcv: number | null }[];
 }
 
 interface EstimateOptions {
   preferredSupplier?: string;
-  laborMarkup?: number;
   materialMarkup?: number;
+  laborMarkup?: number;
   overhead?: number;
+  state?: string;         // Job site, for sales tax
+  zipCode?: string;
+  salesTaxRate?: number;  // Overrides the job site's rate
+  asOf?: Date; // Price with the supplier prices in effect on this date
+  labor?: LaborContext;
 }
 
+export const DEFAULT_PRICING_RATES: Omit<PricingRates, "salesTaxRate"> = {
+  overhead: 0.1,
+  materialMarkup: 0.25,
+  laborMarkup: 0.25,
+};
+
 // Material categories that need product matching
 const MATERIAL_CATEGORIES = [
   "shingles",
@@ -55,19 +112,21 @@ const MATERIAL_CATEGORIES = [
   "sealant",
 ];
 
-// Labor line item indicators
+// Labor-only line item indicators. Install, replace and R&R lines are
+// priced as materials; their labor comes from the labor rate table.
 const LABOR_INDICATORS = [
   "labor",
-  "install",
   "remove",
   "tear",
-  "r&r",
-  "replace",
-  "repair",
   "detach",
   "reset",
+  "steep",
+  "high roof",
 ];
 
+// Labor-only lines whose work the labor rate table prices
+const RATED_LABOR_PATTERN = /^\s*remove\b|tear[\s-]*off|steep|high roof|additional layer/i;
+
 export class PricingCalculator {
   /**
    * Calculate estimate for line items
@@ -79,8 +138,11 @@ export class PricingCalculator {
   ): Promise<EstimateResult> {
     const {
       preferredSupplier = "lowest",
-      laborMarkup = 0.35,
-      materialMarkup = 0.25,
+      materialMarkup = DEFAULT_PRICING_RATES.materialMarkup,
+      laborMarkup = DEFAULT_PRICING_RATES.laborMarkup,
+      overhead = DEFAULT_PRICING_RATES.overhead,
+      asOf,
+      labor = {},
     } = options;
 
     // Separate material and labor items
@@ -99,20 +161,15 @@ export class PricingCalculator {
     const pricedMaterials = await this.priceMaterials(
       materialItems,
       organizationId,
-      preferredSupplier
+      preferredSupplier,
+      asOf
     );
 
-    // Calculate labor cost (use RCV as base if available)
-    let totalLaborCost = 0;
-    for (const item of laborItems) {
-      const rcv = Number(item.rcv) || 0;
-      totalLaborCost += rcv * (1 - laborMarkup); // Apply reverse markup to get cost
-    }
-
-    // Calculate totals
-    const totalMaterialCost = pricedMaterials.items.reduce(
-      (sum, item) => sum + (item.totalPrice || 0),
-      0
+    // Labor from the organization's rates and the quantities being installed
+    const laborLines = laborCalculator.calculate(
+      lineItems,
+      await laborCalculator.getRates(organizationId),
+      labor
     );
 
     // Calculate supplier breakdown
@@ -132,12 +189,8 @@ export class PricingCalculator {
       Object.entries(supplierBreakdown).sort((a, b) => b[1].total - a[1].total)[0]?.[0] ||
       "none";
 
-    // Calculate profit (RCV - Cost)
-    const totalRCV = lineItems.reduce((sum, item) => sum + (Number(item.rcv) || 0), 0);
-    const totalCost = totalMaterialCost + totalLaborCost;
-    const profit = totalRCV - totalCost;
-
-    // Add labor items to priced items
+    // Scope labor lines keep their RCV; their cost is in the rate-table labor
+    // lines, and labor the table doesn't cover is reported as unpriced
     const allPricedItems: PricedItem[] = [
       ...pricedMaterials.items,
       ...laborItems.map((item) => ({
@@ -147,55 +200,153 @@ export class PricingCalculator {
         quantity: Number(item.quantity),
         unit: item.unit,
         rcv: Number(item.rcv),
+        matched: RATED_LABOR_PATTERN.test(item.description),
+        totalPrice: 0,
+        supplier: "labor",
+      })),
+      ...laborLines.map((line, index) => ({
+        id: `labor-${line.type}-${index + 1}`,
+        category: "labor",
+        description: line.description,
+        quantity: line.quantity,
+        unit: line.unit,
+        rcv: null,
         matched: true,
-        unitPrice: Number(item.rcv) * (1 - laborMarkup),
-        totalPrice: Number(item.rcv) * (1 - laborMarkup),
+        unitPrice: line.rate,
+        totalPrice: line.total,
         supplier: "labor",
       })),
     ];
 
+    const jurisdiction = await salesTaxEngine.lookup(options.state, options.zipCode);
+    const breakdown = this.buildBreakdown(allPricedItems, {
+      overhead,
+      materialMarkup,
+      laborMarkup,
+      salesTaxRate: options.salesTaxRate ?? jurisdiction.rate,
+      materialTaxable: jurisdiction.materialTaxable,
+      laborTaxable: jurisdiction.laborTaxable,
+    });
+
     return {
       items: allPricedItems,
-      totalMaterialCost,
-      totalLaborCost,
-      profit,
+      breakdown,
+      tax: {
+        jurisdiction,
+        rate: breakdown.rates.salesTaxRate,
+        taxableAmount: breakdown.taxableAmount,
+        amount: breakdown.salesTax,
+      },
       primarySupplier,
       supplierBreakdown,
+      unpricedLabor: allPricedItems
+        .filter((item) => item.supplier === "labor" && !item.matched)
+        .map((item) => ({
+          itemId: item.id,
+          description: item.description,
+          quantity: item.quantity,
+          unit: item.unit,
+          rcv: item.rcv,
+        })),
+    };
+  }
+
+  /**
+   * Price breakdown for a set of priced items. Used for generated estimates
+   * and for every edited version, so their totals always agree.
+   */
+  buildBreakdown(items: PricedItem[], rates: PricingRates): PriceBreakdown {
+    let materialCost = 0;
+    let laborCost = 0;
+    let rcv = 0;
+
+    for (const item of items) {
+      if (item.supplier === "labor") {
+        laborCost += item.totalPrice || 0;
+      } else {
+        materialCost += item.totalPrice || 0;
+      }
+      rcv += item.rcv || 0;
+    }
+
+    const materialOverhead = materialCost * rates.overhead;
+    const laborOverhead = laborCost * rates.overhead;
+    const materialProfit = (materialCost + materialOverhead) * rates.materialMarkup;
+    const laborProfit = (laborCost + laborOverhead) * rates.laborMarkup;
+
+    const taxableAmount = round2(
+      (rates.materialTaxable !== false ? materialCost + materialOverhead + materialProfit : 0) +
+        (rates.laborTaxable ? laborCost + laborOverhead + laborProfit : 0)
+    );
+
+    const breakdown = {
+      materialCost: round2(materialCost),
+      laborCost: round2(laborCost),
+      overhead: round2(materialOverhead + laborOverhead),
+      profit: round2(materialProfit + laborProfit),
+      salesTax: round2(taxableAmount * rates.salesTaxRate),
+    };
+
+    // Total from the rounded parts so the lines on a document add up
+    return {
+      ...breakdown,
+      totalPrice: round2(Object.values(breakdown).reduce((sum, value) => sum + value, 0)),
+      taxableAmount,
+      rcv: round2(rcv),
+      rates,
     };
   }
 
+  /**
+   * Price a specific product for an organization, e.g. when an estimator swaps
+   * the matched product on a line
+   */
+  async priceProduct(
+    productId: string,
+    organizationId: string,
+    preferredSupplier: string = "lowest"
+  ): Promise<{ product: ProductCatalog; unitPrice: number; supplier: string; sku?: string } | null> {
+    const product = await prisma.productCatalog.findUnique({
+      where: { id: productId },
+    });
+
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const quotes = await supplierPricing.getQuotes([product.id], organizationId);
+    const pricing = this.getBestPrice(quotes.get(product.id) || [], preferredSupplier);
+
+    return pricing ? { product, ...pricing } : null;
+  }
+
   /**
    * Price material items using product catalog
    */
   private async priceMaterials(
     items: LineItem[],
     organizationId: string,
-    preferredSupplier: string
+    preferredSupplier: string,
+    asOf?: Date
   ): Promise<{ items: PricedItem[] }> {
     const pricedItems: PricedItem[] = [];
 
-    // Get all products for matching
-    const products = await prisma.productCatalog.findMany({
-      where: { isActive: true },
-    });
-
-    // Get supplier configurations
-    const supplierConfigs = await prisma.supplierConfiguration.findMany({
-      where: {
-        organizationId,
-        isEnabled: true,
-      },
-    });
+    // Match products (also stored on each line item)
+    const matches = await productMatcher.matchLineItems(items, organizationId);
 
-    const enabledSuppliers = new Set(supplierConfigs.map((c) => c.supplier));
+    // Supplier quotes for every matched product, as of the price date if given
+    const productIds = [...new Set([...matches.values()].flatMap((m) => (m ? [m.product.id] : [])))];
+    const quotes = await supplierPricing.getQuotes(productIds, organizationId, asOf);
 
     for (const item of items) {
-      // Try to match to a product
-      const match = this.findBestProductMatch(item, products);
+      const match = matches.get(item.id);
 
       if (match) {
         // Get best price
-        const pricing = this.getBestPrice(match, preferredSupplier, enabledSuppliers);
+        const pricing = this.getBestPrice(quotes.get(match.product.id) || [], preferredSupplier);
+
+        // Supplier prices are per bundle/roll/piece, not per scope unit
+        const conversion = convertToSupplierUnits(Number(item.quantity), item.unit, match.product);
 
         pricedItems.push({
           id: item.id,
@@ -204,11 +355,15 @@ export class PricingCalculator {
           quantity: Number(item.quantity),
           unit: item.unit,
           rcv: Number(item.rcv),
+          supplierQuantity: conversion.supplierQuantity,
+          supplierUnit: conversion.supplierUnit,
+          conversionFactor: conversion.factor,
           matched: true,
-          productId: match.id,
-          productName: match.name,
+          matchConfidence: match.confidence,
+          productId: match.product.id,
+          productName: match.product.name,
           unitPrice: pricing?.unitPrice,
-          totalPrice: pricing ? pricing.unitPrice * Number(item.quantity) : undefined,
+          totalPrice: pricing ? pricing.unitPrice * conversion.supplierQuantity : undefined,
           supplier: pricing?.supplier,
           sku: pricing?.sku,
         });
@@ -232,115 +387,30 @@ export class PricingCalculator {
   }
 
   /**
-   * Find best matching product for a line item
-   */
-  private findBestProductMatch(
-    item: LineItem,
-    products: ProductCatalog[]
-  ): ProductCatalog | null {
-    const description = item.description.toLowerCase();
-    const subcategory = item.subcategory?.toLowerCase();
-
-    let bestMatch: ProductCatalog | null = null;
-    let bestScore = 0;
-
-    for (const product of products) {
-      let score = 0;
-
-      // Category match
-      if (product.category.toLowerCase() === item.category.toLowerCase()) {
-        score += 2;
-      }
-
-      // Subcategory match
-      if (subcategory && product.subcategory?.toLowerCase() === subcategory) {
-        score += 3;
-      }
-
-      // Name contains description words
-      const productName = product.name.toLowerCase();
-      const descWords = description.split(/\s+/);
-      for (const word of descWords) {
-        if (word.length > 2 && productName.includes(word)) {
-          score += 1;
-        }
-      }
-
-      // SKU or manufacturer match
-      if (product.manufacturerSku && description.includes(product.manufacturerSku.toLowerCase())) {
-        score += 5;
-      }
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestMatch = product;
-      }
-    }
-
-    // Require minimum score for a match
-    return bestScore >= 3 ? bestMatch : null;
-  }
-
-  /**
-   * Get best price from available suppliers
+   * Get best price from the organization's supplier quotes
    */
   private getBestPrice(
-    product: ProductCatalog,
-    preference: string,
-    enabledSuppliers: Set<string>
+    quotes: SupplierQuote[],
+    preference: string
   ): { unitPrice: number; supplier: string; sku?: string } | null {
-    const suppliers = [
-      {
-        name: "beacon",
-        price: product.beaconPrice ? Number(product.beaconPrice) : null,
-        sku: product.beaconSku,
-      },
-      {
-        name: "srs",
-        price: product.srsPrice ? Number(product.srsPrice) : null,
-        sku: product.srsSku,
-      },
-      {
-        name: "abc",
-        price: product.abcPrice ? Number(product.abcPrice) : null,
-        sku: product.abcSku,
-      },
-      {
-        name: "gulf_eagle",
-        price: product.gulfEaglePrice ? Number(product.gulfEaglePrice) : null,
-        sku: product.gulfEagleSku,
-      },
-    ].filter((s) => s.price !== null && enabledSuppliers.has(s.name));
-
-    if (suppliers.length === 0) {
+    if (quotes.length === 0) {
       return null;
     }
 
     // If preferred supplier specified and available, use it
-    if (preference && preference !== "lowest") {
-      const preferred = suppliers.find((s) => s.name === preference);
-      if (preferred && preferred.price !== null) {
-        return {
-          unitPrice: preferred.price,
-          supplier: preferred.name,
-          sku: preferred.sku || undefined,
-        };
-      }
-    }
-
-    // Otherwise, return lowest price
-    suppliers.sort((a, b) => (a.price || 999999) - (b.price || 999999));
-    const lowest = suppliers[0];
+    const preferred =
+      preference && preference !== "lowest"
+        ? quotes.find((quote) => quote.supplier === preference)
+        : undefined;
 
-    if (lowest && lowest.price !== null) {
-      return {
-        unitPrice: lowest.price,
-        supplier: lowest.name,
-        sku: lowest.sku || undefined,
-      };
-    }
+    // Otherwise, use the lowest price
+    const best = preferred || [...quotes].sort((a, b) => a.price - b.price)[0];
 
-    return null;
+    return {
+      unitPrice: best.price,
+      supplier: best.supplier,
+      sku: best.sku,
+    };
   }
 
   /**
@@ -371,7 +441,8 @@ export class PricingCalculator {
   }
 
   /**
-   * Calculate material quantities based on roof measurements
+   * Calculate material quantities based on roof measurements, in scope units
+   * (SQ, LF, SF, EA) so they price through the same unit conversion as a scope
    */
   calculateMaterialQuantities(measurements: {
     totalArea: number;
@@ -380,44 +451,78 @@ export class PricingCalculator {
     valley: number;
     eave: number;
     rake: number;
+    stepFlashing?: number;
+    headwall?: number;
+    lowSlopeArea?: number;   // sq ft between 2:12 and 4:12 (double underlayment)
+    flatArea?: number;       // sq ft under 2:12 (not shingled)
+    pitch?: number;          // Predominant rise per 12
+    penetrations?: number;   // Pipe jacks
+    iceBarrierAtEaves?: boolean;
     wastePercent?: number;
   }): Record<string, { quantity: number; unit: string }> {
-    const waste = measurements.wastePercent || 0.1; // 10% default waste
+    const flatArea = measurements.flatArea || 0;
+    const shingledArea = Math.max(0, measurements.totalArea - flatArea);
 
-    // Convert sq ft to squares (1 square = 100 sq ft)
-    const squares = measurements.totalArea / 100;
-    const squaresWithWaste = squares * (1 + waste);
+    // 10% default waste; steep roofs lose more to cuts
+    const waste =
+      measurements.wastePercent ?? ((measurements.pitch || 0) >= 10 ? 0.15 : 0.1);
 
-    return {
-      // Shingles: 3 bundles per square
-      shingles: { quantity: Math.ceil(squaresWithWaste * 3), unit: "bundle" },
+    const quantities: Record<string, { quantity: number; unit: string }> = {
+      // Shingles: squares with waste
+      shingles: { quantity: squares(shingledArea * (1 + waste)), unit: "SQ" },
 
-      // Underlayment: 1 roll covers ~400 sq ft
-      underlayment: { quantity: Math.ceil(measurements.totalArea / 400), unit: "roll" },
+      // Underlayment: net area, twice over low-slope sections
+      underlayment: {
+        quantity: squares(shingledArea + (measurements.lowSlopeArea || 0)),
+        unit: "SQ",
+      },
 
-      // Starter strip: 1 per eave foot
-      starter: { quantity: Math.ceil(measurements.eave / 100), unit: "bundle" },
+      // Starter strip runs along eaves and rakes
+      starter: { quantity: measurements.eave + measurements.rake, unit: "LF" },
 
-      // Hip & ridge: 1 bundle per 20 LF
-      hipRidge: {
-        quantity: Math.ceil((measurements.ridge + measurements.hip) / 20),
-        unit: "bundle",
-      },
+      // Ridge and hip cap are bought separately (ridge often goes over ridge vent)
+      ridgeCap: { quantity: measurements.ridge, unit: "LF" },
+      hipCap: { quantity: measurements.hip, unit: "LF" },
+
+      // Drip edge at eaves and rakes
+      dripEdge: { quantity: measurements.eave + measurements.rake, unit: "LF" },
 
-      // Drip edge: 1 piece per 10 LF
-      dripEdge: {
-        quantity: Math.ceil((measurements.eave + measurements.rake) / 10),
-        unit: "piece",
+      // Ice & water barrier: 3 ft each side of valleys, two courses at eaves where required
+      iceWater: {
+        quantity:
+          measurements.valley * 6 + (measurements.iceBarrierAtEaves ? measurements.eave * 6 : 0),
+        unit: "SF",
       },
 
-      // Ice & water barrier: 1 roll per 65 LF (for first 3 feet at eaves)
-      iceWater: { quantity: Math.ceil((measurements.eave * 3) / 65), unit: "roll" },
+      valleyMetal: { quantity: measurements.valley, unit: "LF" },
+      stepFlashing: { quantity: measurements.stepFlashing || 0, unit: "LF" },
+      headwallFlashing: { quantity: measurements.headwall || 0, unit: "LF" },
+      pipeJacks: { quantity: measurements.penetrations || 0, unit: "EA" },
 
-      // Valley metal: 1 piece per 10 LF
-      valleyMetal: { quantity: Math.ceil(measurements.valley / 10), unit: "piece" },
+      // Flat sections need low-slope roofing instead of shingles
+      lowSlopeRoofing: { quantity: squares(flatArea * (1 + waste)), unit: "SQ" },
 
-      // Nails: 4 per sq ft (1 coil per 120 sq ft)
-      nails: { quantity: Math.ceil(measurements.totalArea / 120), unit: "coil" },
+      // Nails: by shingled area
+      nails: { quantity: squares(shingledArea * (1 + waste)), unit: "SQ" },
     };
+
+    // Whole feet and counts; drop anything the roof doesn't have
+    for (const [key, value] of Object.entries(quantities)) {
+      if (value.unit !== "SQ") value.quantity = Math.ceil(value.quantity - 1e-6);
+      if (value.quantity <= 0) delete quantities[key];
+    }
+
+    return quantities;
   }
 }
+
+/**
+ * Square feet to squares, rounded up to the hundredth
+ */
+function squares(squareFeet: number): number {
+  return Math.ceil(squareFeet - 1e-6) / 100;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
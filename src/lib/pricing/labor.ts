@@ -0,0 +1,250 @@
+/**
+ * Labor Pricing
+ *
+ * Prices crew labor from the organization's labor rate table: install per
+ * square by pitch band, tear-off per layer, steep and high roof charges, per
+ * LF for flashing and per EA for penetrations. Quantities come from the
+ * line items being priced; pitch and stories come from the aerial report
+ * when there is one.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { isRemovalLine, parsePitch } from "@/lib/roofing/roof";
+import type { AerialReport, LineItem } from "@prisma/client";
+
+export type LaborRateType = "install" | "tear_off" | "steep" | "high" | "flashing" | "penetration";
+
+export interface LaborRateEntry {
+  type: LaborRateType;
+  unit: string;
+  rate: number;
+  minPitch?: number | null;
+  maxPitch?: number | null;
+  layer?: number | null;
+  minStories?: number | null;
+}
+
+export interface LaborContext {
+  slopes?: { pitch: number; area: number }[]; // Roof area by pitch (aerial report)
+  pitch?: number;   // Predominant rise per 12 when slopes are unknown
+  stories?: number;
+  layers?: number;  // Layers to tear off
+}
+
+export interface LaborLine {
+  type: LaborRateType;
+  description: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  total: number;
+}
+
+// Used until an organization sets up its own table
+export const DEFAULT_LABOR_RATES: LaborRateEntry[] = [
+  { type: "install", unit: "SQ", rate: 75, maxPitch: 7 },
+  { type: "install", unit: "SQ", rate: 90, minPitch: 7, maxPitch: 10 },
+  { type: "install", unit: "SQ", rate: 110, minPitch: 10 },
+  { type: "tear_off", unit: "SQ", rate: 35, layer: 1 },
+  { type: "tear_off", unit: "SQ", rate: 20, layer: 2 },
+  { type: "steep", unit: "SQ", rate: 15, minPitch: 8 },
+  { type: "high", unit: "SQ", rate: 10, minStories: 2 },
+  { type: "flashing", unit: "LF", rate: 3 },
+  { type: "penetration", unit: "EA", rate: 35 },
+];
+
+// Roof covering the crew installs, by line item subcategory
+const COVERING_SUBCATEGORIES = new Set(["shingles", "low_slope"]);
+const FLASHING_SUBCATEGORIES = new Set(["flashing", "drip_edge"]);
+const PENETRATION_SUBCATEGORIES = new Set(["pipe_jack", "vent"]);
+
+// Fallbacks for lines without a subcategory
+const COVERING_PATTERN = /^(?!.*(?:starter|ridge|hip|\bcap\b|roofing felt|underlay|steep|high roof|additional|nail)).*(?:shingle|rfg|roofing|modified bitumen)/i;
+const FLASHING_PATTERN = /flashing|drip\s*edge|valley metal/i;
+const PENETRATION_PATTERN = /pipe\s*jack|boot|vent|penetration|flue/i;
+
+export class LaborCalculator {
+  /**
+   * The organization's labor rate table, or the defaults if it has none
+   */
+  async getRates(organizationId: string): Promise<LaborRateEntry[]> {
+    const rates = await prisma.laborRate.findMany({
+      where: { organizationId },
+    });
+
+    if (rates.length === 0) return DEFAULT_LABOR_RATES;
+
+    return rates.map((rate) => ({
+      type: rate.type as LaborRateType,
+      unit: rate.unit,
+      rate: Number(rate.rate),
+      minPitch: rate.minPitch,
+      maxPitch: rate.maxPitch,
+      layer: rate.layer,
+      minStories: rate.minStories,
+    }));
+  }
+
+  /**
+   * Labor lines for a set of line items
+   */
+  calculate(
+    lineItems: Pick<LineItem, "description" | "quantity" | "unit" | "subcategory">[],
+    rates: LaborRateEntry[],
+    context: LaborContext = {}
+  ): LaborLine[] {
+    const quantities = laborQuantities(lineItems);
+    const pitch = context.pitch ?? scopePitch(lineItems) ?? 0;
+    const stories = context.stories ?? (lineItems.some((item) => /high roof|[2-9] stor/i.test(item.description)) ? 2 : 1);
+    const layers = context.layers ?? 1 + Math.min(1, lineItems.filter((item) => /additional layer/i.test(item.description)).length);
+    const lines: LaborLine[] = [];
+
+    const push = (type: LaborRateType, description: string, quantity: number, unit: string, rate: number) => {
+      const rounded = round2(quantity);
+      if (rounded <= 0 || rate <= 0) return;
+      lines.push({ type, description, quantity: rounded, unit, rate, total: round2(rounded * rate) });
+    };
+
+    // Squares by pitch band, split by the aerial report's slope areas when known
+    const pitchSquares = splitByPitch(quantities.squares, context.slopes, pitch);
+
+    for (const rate of rates.filter((r) => r.type === "install")) {
+      const squares = pitchSquares
+        .filter((s) => inPitchBand(s.pitch, rate))
+        .reduce((sum, s) => sum + s.squares, 0);
+      push("install", `Install labor${pitchBandLabel(rate)}`, squares, "SQ", rate.rate);
+    }
+
+    for (let layer = 1; layer <= layers; layer++) {
+      const rate = tearOffRate(rates, layer);
+      if (rate) push("tear_off", `Tear-off labor - layer ${layer}`, quantities.squares, "SQ", rate.rate);
+    }
+
+    for (const rate of rates.filter((r) => r.type === "steep")) {
+      const squares = pitchSquares
+        .filter((s) => inPitchBand(s.pitch, rate))
+        .reduce((sum, s) => sum + s.squares, 0);
+      push("steep", `Steep roof charge${pitchBandLabel(rate)}`, squares, "SQ", rate.rate);
+    }
+
+    // Only the highest story tier that applies
+    const high = rates
+      .filter((r) => r.type === "high" && stories >= (r.minStories ?? 2))
+      .sort((a, b) => (b.minStories ?? 2) - (a.minStories ?? 2))[0];
+    if (high) push("high", `High roof charge - ${stories} stories`, quantities.squares, "SQ", high.rate);
+
+    const flashing = rates.find((r) => r.type === "flashing");
+    if (flashing) push("flashing", "Flashing labor", quantities.flashing, "LF", flashing.rate);
+
+    const penetration = rates.find((r) => r.type === "penetration");
+    if (penetration) push("penetration", "Penetration labor", quantities.penetrations, "EA", penetration.rate);
+
+    return lines;
+  }
+}
+
+/**
+ * Squares of roof covering, LF of flashing and count of penetrations the
+ * crew installs
+ */
+export function laborQuantities(
+  lineItems: (Pick<LineItem, "description" | "unit"> & {
+    quantity: LineItem["quantity"] | number; // Priced estimate items carry plain numbers
+    subcategory?: string | null;
+  })[]
+): { squares: number; flashing: number; penetrations: number } {
+  let squares = 0;
+  let flashing = 0;
+  let penetrations = 0;
+
+  for (const item of lineItems) {
+    if (isRemovalLine(item.description)) continue;
+
+    const quantity = Number(item.quantity) || 0;
+    const unit = item.unit.toUpperCase();
+    const subcategory = item.subcategory?.toLowerCase();
+
+    const is = (subcategories: Set<string>, pattern: RegExp) =>
+      subcategory ? subcategories.has(subcategory) : pattern.test(item.description);
+
+    if (unit === "SQ" && is(COVERING_SUBCATEGORIES, COVERING_PATTERN)) {
+      squares += quantity;
+    } else if (unit === "LF" && is(FLASHING_SUBCATEGORIES, FLASHING_PATTERN)) {
+      flashing += quantity;
+    } else if (unit === "EA" && is(PENETRATION_SUBCATEGORIES, PENETRATION_PATTERN)) {
+      penetrations += quantity;
+    }
+  }
+
+  return { squares: round2(squares), flashing: round2(flashing), penetrations };
+}
+
+/**
+ * Pitch context from an aerial report
+ */
+export function aerialLaborContext(aerial: AerialReport | null | undefined): LaborContext {
+  if (!aerial) return {};
+
+  const slopes = (Array.isArray(aerial.slopes) ? (aerial.slopes as { pitch: string; area: number }[]) : [])
+    .map((slope) => ({ pitch: parsePitch(slope.pitch), area: slope.area || 0 }))
+    .filter((slope): slope is { pitch: number; area: number } => slope.pitch !== null && slope.area > 0);
+
+  return {
+    slopes: slopes.length > 0 ? slopes : undefined,
+    pitch: aerial.predominantPitch ? parsePitch(aerial.predominantPitch) ?? undefined : undefined,
+  };
+}
+
+/**
+ * Highest pitch named on a scope's steep charge lines, e.g. "7/12 to 9/12"
+ */
+function scopePitch(lineItems: Pick<LineItem, "description">[]): number | null {
+  let pitch: number | null = null;
+
+  for (const item of lineItems) {
+    if (!/steep/i.test(item.description)) continue;
+    for (const match of item.description.matchAll(/(\d+)\s*\/\s*12/g)) {
+      pitch = Math.max(pitch ?? 0, Number(match[1]));
+    }
+  }
+
+  return pitch;
+}
+
+function splitByPitch(
+  squares: number,
+  slopes: LaborContext["slopes"],
+  pitch: number
+): { pitch: number; squares: number }[] {
+  const area = (slopes || []).reduce((sum, slope) => sum + (slope.area || 0), 0);
+  if (!slopes || area <= 0) return [{ pitch, squares }];
+
+  return slopes.map((slope) => ({ pitch: slope.pitch, squares: (squares * (slope.area || 0)) / area }));
+}
+
+function inPitchBand(pitch: number, rate: LaborRateEntry): boolean {
+  return (rate.minPitch == null || pitch >= rate.minPitch) && (rate.maxPitch == null || pitch < rate.maxPitch);
+}
+
+function pitchBandLabel(rate: LaborRateEntry): string {
+  if (rate.minPitch == null && rate.maxPitch == null) return "";
+  if (rate.minPitch == null) return ` - under ${rate.maxPitch}/12`;
+  if (rate.maxPitch == null) return ` - ${rate.minPitch}/12 and up`;
+  return ` - ${rate.minPitch}/12 to ${rate.maxPitch - 1}/12`;
+}
+
+/**
+ * Rate for a tear-off layer: its own, else the highest layer defined below it
+ */
+function tearOffRate(rates: LaborRateEntry[], layer: number): LaborRateEntry | undefined {
+  return rates
+    .filter((r) => r.type === "tear_off" && (r.layer ?? 1) <= layer)
+    .sort((a, b) => (b.layer ?? 1) - (a.layer ?? 1))[0];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const laborCalculator = new LaborCalculator();
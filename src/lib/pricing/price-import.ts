@@ -0,0 +1,375 @@
+/**
+ * Supplier Price List Import
+ *
+ * Reads a supplier's CSV/XLSX price sheet, maps its columns to catalog SKUs
+ * and previews the price changes. Applying an import writes the importing
+ * organization's prices for that supplier through SupplierPricing, which
+ * keeps their history by effective date. A sheet never changes the list
+ * prices other organizations see; only operator scripts load those.
+ */
+
+import ExcelJS from "exceljs";
+import { prisma } from "@/lib/prisma";
+import { supplierPricing } from "./supplier-prices";
+import type { ProductCatalog, SupplierPrice, SupplierPriceImport } from "@prisma/client";
+
+export interface PriceSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Sheet column header for each field we read
+export interface ColumnMapping {
+  sku: string;
+  price: string;
+  description?: string;
+  unit?: string;
+}
+
+export interface PriceChange {
+  productId: string;
+  productName: string;
+  sku: string;
+  oldPrice: number | null;
+  newPrice: number;
+  change: number | null; // Percent, null for a first price
+}
+
+export interface UnmatchedRow {
+  row: number;
+  sku: string;
+  description?: string;
+  price: number | null;
+}
+
+// A sheet of several thousand SKUs still updates one row per existing price
+const APPLY_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Header patterns used to suggest a mapping, best first
+const COLUMN_PATTERNS: Record<keyof ColumnMapping, RegExp[]> = {
+  sku: [/^(?:item|sku|part)\s*(?:#|no\.?|number|code)?$/i, /sku|item\s*(?:#|no|number|code)|part\s*(?:#|no|number)|product\s*code/i],
+  price: [/net\s*price|your\s*price|contract\s*price/i, /price|cost/i],
+  description: [/desc/i, /name|product/i],
+  unit: [/^u\/?m$|^uom$/i, /unit/i],
+};
+
+/**
+ * Read the first worksheet of an XLSX file, or a CSV file, into rows of text
+ */
+export async function parsePriceSheet(buffer: Buffer, fileName: string): Promise<PriceSheet> {
+  const rows = /\.xlsx$/i.test(fileName)
+    ? await readWorkbook(buffer)
+    : parseCsv(buffer.toString("utf-8").replace(/^\uFEFF/, ""));
+
+  // Supplier sheets often have a title block; the header is the first full row
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim() !== ""));
+  const widest = Math.max(0, ...nonEmpty.map((row) => row.filter(Boolean).length));
+  const headerIndex = nonEmpty.findIndex((row) => row.filter(Boolean).length >= Math.min(2, widest));
+
+  if (headerIndex === -1) {
+    throw new Error("Price list is empty");
+  }
+
+  return {
+    headers: nonEmpty[headerIndex].map((header) => header.trim()),
+    rows: nonEmpty.slice(headerIndex + 1),
+  };
+}
+
+/**
+ * Guess which columns hold the SKU, price, description and unit
+ */
+export function suggestColumnMapping(headers: string[]): Partial<ColumnMapping> {
+  const mapping: Partial<ColumnMapping> = {};
+  const used = new Set<string>();
+
+  for (const field of ["sku", "price", "description", "unit"] as (keyof ColumnMapping)[]) {
+    for (const pattern of COLUMN_PATTERNS[field]) {
+      const header = headers.find((h) => h && !used.has(h) && pattern.test(h));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+export class PriceListImporter {
+  /**
+   * Match a price sheet to the catalog and store the proposed changes for review
+   */
+  async preview(data: {
+    organizationId: string;
+    supplier: string;
+    branch?: string;
+    fileName: string;
+    s3Key?: string;
+    sheet: PriceSheet;
+    mapping: ColumnMapping;
+    effectiveDate: Date;
+    createdById?: string;
+  }): Promise<SupplierPriceImport> {
+    const config = await prisma.supplierConfiguration.findUnique({
+      where: {
+        organizationId_supplier: { organizationId: data.organizationId, supplier: data.supplier },
+      },
+    });
+
+    if (!config) {
+      throw new Error("Supplier not configured");
+    }
+
+    const column = (header?: string) => (header ? data.sheet.headers.indexOf(header) : -1);
+    const skuColumn = column(data.mapping.sku);
+    const priceColumn = column(data.mapping.price);
+    const descriptionColumn = column(data.mapping.description);
+
+    if (skuColumn === -1 || priceColumn === -1) {
+      throw new Error("SKU and price columns are required");
+    }
+
+    const [products, prices] = await Promise.all([
+      prisma.productCatalog.findMany({ where: { isActive: true } }),
+      prisma.supplierPrice.findMany({
+        where: {
+          supplier: data.supplier,
+          OR: [{ supplierConfigId: null }, { supplierConfigId: config.id }],
+        },
+      }),
+    ]);
+    const index = buildSkuIndex(products, prices);
+
+    // What the organization pays now, which this import replaces: its own
+    // price beats the list price, and a branch price beats an all-branch one
+    const branch = data.branch || null;
+    const rank = (row: SupplierPrice) => (row.supplierConfigId !== null ? 2 : 0) + (row.branch !== null ? 1 : 0);
+    const currentPrices = new Map(
+      prices
+        .filter((row) => row.branch === null || row.branch === branch)
+        .sort((a, b) => rank(a) - rank(b))
+        .map((row) => [row.productId, Number(row.price)])
+    );
+
+    const changes: PriceChange[] = [];
+    const unmatched: UnmatchedRow[] = [];
+    const seen = new Set<string>();
+
+    data.sheet.rows.forEach((row, i) => {
+      const sku = (row[skuColumn] || "").trim();
+      if (!sku) return;
+
+      const price = parsePrice(row[priceColumn]);
+      const product = index.get(normalizeSku(sku));
+
+      if (!product || price === null) {
+        unmatched.push({
+          row: i + 1,
+          sku,
+          description: descriptionColumn !== -1 ? row[descriptionColumn] : undefined,
+          price,
+        });
+        return;
+      }
+
+      // First row wins if a sheet lists a SKU twice
+      if (seen.has(product.id)) return;
+      seen.add(product.id);
+
+      const oldPrice = currentPrices.get(product.id) ?? null;
+      changes.push({
+        productId: product.id,
+        productName: product.name,
+        sku,
+        oldPrice,
+        newPrice: price,
+        change: oldPrice ? Math.round(((price - oldPrice) / oldPrice) * 10000) / 100 : null,
+      });
+    });
+
+    return prisma.supplierPriceImport.create({
+      data: {
+        organizationId: data.organizationId,
+        supplier: data.supplier,
+        branch,
+        fileName: data.fileName,
+        s3Key: data.s3Key,
+        columnMapping: data.mapping as object,
+        effectiveDate: data.effectiveDate,
+        rowCount: data.sheet.rows.length,
+        changes: changes as object,
+        unmatched: unmatched as object,
+        createdById: data.createdById,
+      },
+    });
+  }
+
+  /**
+   * Apply a previewed import. Prices already newer than the import's
+   * effective date are kept; the import still adds to their history.
+   */
+  async apply(importId: string): Promise<{ applied: number; skipped: number }> {
+    const priceImport = await prisma.supplierPriceImport.findUnique({
+      where: { id: importId },
+    });
+
+    if (!priceImport) {
+      throw new Error("Price import not found");
+    }
+
+    if (priceImport.status !== "previewed") {
+      throw new Error("Price import has already been applied or discarded");
+    }
+
+    const config = await prisma.supplierConfiguration.findUnique({
+      where: {
+        organizationId_supplier: {
+          organizationId: priceImport.organizationId,
+          supplier: priceImport.supplier,
+        },
+      },
+    });
+
+    if (!config) {
+      throw new Error("Supplier not configured");
+    }
+
+    const changes = priceImport.changes as unknown as PriceChange[];
+
+    const { updated, skipped } = await prisma.$transaction(
+      async (tx) => {
+        // Claim the import; fails if another apply or a discard got there first
+        const { count } = await tx.supplierPriceImport.updateMany({
+          where: { id: priceImport.id, status: "previewed" },
+          data: { status: "applied", appliedAt: new Date() },
+        });
+
+        if (count === 0) {
+          throw new Error("Price import has already been applied or discarded");
+        }
+
+        return supplierPricing.setPrices(
+          changes.map((change) => ({
+            productId: change.productId,
+            supplier: priceImport.supplier,
+            supplierConfigId: config.id,
+            branch: priceImport.branch,
+            sku: change.sku,
+            price: change.newPrice,
+            effectiveDate: priceImport.effectiveDate,
+            importId: priceImport.id,
+          })),
+          tx
+        );
+      },
+      { timeout: APPLY_TIMEOUT_MS }
+    );
+
+    return { applied: updated, skipped };
+  }
+}
+
+/**
+ * Index products by every SKU a supplier sheet might use for them
+ */
+function buildSkuIndex(products: ProductCatalog[], prices: SupplierPrice[]): Map<string, ProductCatalog> {
+  const index = new Map<string, ProductCatalog>();
+
+  // Weakest first so the supplier's own SKU wins
+  for (const key of ["sku", "manufacturerSku"] as const) {
+    for (const product of products) {
+      const sku = product[key];
+      if (sku) index.set(normalizeSku(sku), product);
+    }
+  }
+
+  const productIndex = new Map(products.map((p) => [p.id, p]));
+  for (const row of prices) {
+    const product = productIndex.get(row.productId);
+    if (row.sku && product) index.set(normalizeSku(row.sku), product);
+  }
+
+  return index;
+}
+
+function normalizeSku(sku: string): string {
+  return sku.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function parsePrice(value: string | undefined): number | null {
+  if (!value) return null;
+  const price = Number(value.replace(/[$,\s]/g, ""));
+  return Number.isFinite(price) && price > 0 ? Math.round(price * 100) / 100 : null;
+}
+
+async function readWorkbook(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = cell.text ?? "";
+    });
+    rows.push(Array.from(cells, (cell) => cell ?? ""));
+  });
+
+  return rows;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Export singleton instance
+export const priceListImporter = new PriceListImporter();
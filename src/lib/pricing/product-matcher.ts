@@ -0,0 +1,309 @@
+/**
+ * Product Matcher
+ *
+ * Matches scope line items to catalog products. Descriptions are normalized
+ * (Xactimate codes and abbreviations expanded), scored by token similarity and
+ * unit compatibility, and checked first against aliases the organization has
+ * taught us by correcting matches.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { LineItem, ProductAlias, ProductCatalog } from "@prisma/client";
+
+export interface ProductMatch {
+  product: ProductCatalog;
+  confidence: number; // 0-1
+  method: "alias" | "sku" | "fuzzy";
+}
+
+// Minimum fuzzy score to accept a match
+const MATCH_THRESHOLD = 0.5;
+
+// Common Xactimate roofing item codes
+const XACTIMATE_CODES: [RegExp, string][] = [
+  [/\brfg\s*-?\s*240\b/g, "3 tab 20 year composition shingle"],
+  [/\brfg\s*-?\s*250\b/g, "3 tab 25 year composition shingle"],
+  [/\brfg\s*-?\s*300\b/g, "laminated composition shingle"],
+  [/\brfg\s*-?\s*400\b/g, "laminated high grade composition shingle"],
+  [/\brfg\s*-?\s*felt\s*15\b/g, "felt 15 lb underlayment"],
+  [/\brfg\s*-?\s*felt\s*30\b/g, "felt 30 lb underlayment"],
+  [/\brfg\s*-?\s*synf?\b/g, "synthetic underlayment"],
+  [/\brfg\s*-?\s*drip\b/g, "drip edge"],
+  [/\brfg\s*-?\s*ridgc\b/g, "hip ridge cap shingle"],
+  [/\brfg\s*-?\s*(?:astr|strt)\b/g, "starter shingle"],
+  [/\brfg\s*-?\s*iws\b/g, "ice water shield"],
+  [/\brfg\s*-?\s*vall?\b/g, "valley metal"],
+  [/\brfg\s*-?\s*step\b/g, "step flashing"],
+  [/\brfg\s*-?\s*ventr\b/g, "ridge vent"],
+  [/\brfg\s*-?\s*ventt\b/g, "turtle roof vent"],
+  [/\brfg\s*-?\s*pj(?:k)?\b/g, "pipe jack flashing"],
+];
+
+// Abbreviations and synonyms, applied after codes
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\bw\/\s*out\b/g, " without "],
+  [/\bw\/o\b/g, " without "],
+  [/\bw\//g, " with "],
+  [/\bi\s*&\s*w\b/g, " ice water "],
+  [/\bice\s*(?:&|and)\s*water\b/g, " ice water "],
+  [/\bh\s*&\s*r\b|\bhip\s*(?:\/|&|and)\s*ridge\b/g, " hip ridge "],
+  [/\b3\s*-?\s*in\s*-?\s*1\b/g, " 3in1 "],
+  [/\b(\d+(?:\.\d+)?)\s*(?:"|''|in\b|inch(?:es)?\b)/g, " $1in "],
+  [/\b(\d+)\s*#/g, " $1 lb "],
+  [/\brfg\b/g, " roofing "],
+  [/\bcomp\b\.?/g, " composition "],
+  [/\blam\b\.?/g, " laminated "],
+  [/\barchitectural\b|\bdimensional\b/g, " laminated "],
+  [/\bflash\b/g, " flashing "],
+  [/\bboot\b/g, " jack "],
+  [/\bcollar\b/g, " jack "],
+  [/\bgooseneck\b/g, " goose neck "],
+  [/\bunderlay\b/g, " underlayment "],
+  [/\bsynth\b\.?/g, " synthetic "],
+  [/\bgalv\b\.?/g, " galvanized "],
+  [/\balum\b\.?/g, " aluminum "],
+];
+
+// Words that say nothing about which product it is
+const STOPWORDS = new Set([
+  "a", "an", "and", "the", "of", "per", "for", "to", "with", "or",
+  "remove", "replace", "install", "detach", "reset", "r&r", "roofing", "rfg",
+  "additional", "includes", "incl", "type", "style", "grade",
+]);
+
+// Scope units mapped to the product units they can be bought in
+const UNIT_COMPATIBILITY: Record<string, string[]> = {
+  SQ: ["bundle", "square", "roll", "pallet"],
+  SF: ["roll", "square", "sheet", "bundle"],
+  LF: ["piece", "linear_foot", "bundle", "roll", "box", "coil"],
+  EA: ["each", "piece", "box"],
+  RL: ["roll"],
+  BX: ["box"],
+};
+
+export class ProductMatcher {
+  /**
+   * Match line items for an organization, using its aliases, and store the
+   * result on each line item
+   */
+  async matchLineItems(
+    lineItems: LineItem[],
+    organizationId: string
+  ): Promise<Map<string, ProductMatch | null>> {
+    const [products, aliases] = await Promise.all([
+      prisma.productCatalog.findMany({ where: { isActive: true } }),
+      prisma.productAlias.findMany({ where: { organizationId } }),
+    ]);
+
+    const aliasIndex = new Map(aliases.map((alias) => [alias.normalizedDescription, alias]));
+    const tokenIndex = tokenizeProducts(products);
+    const matches = new Map<string, ProductMatch | null>();
+    const usedAliases = new Set<string>();
+
+    for (const item of lineItems) {
+      const match = this.match(item, products, aliasIndex, tokenIndex);
+      matches.set(item.id, match);
+
+      if (match?.method === "alias") {
+        usedAliases.add(aliasIndex.get(normalizeDescription(item.description))!.id);
+      }
+
+      if (
+        match?.product.id !== (item.matchedProductId ?? undefined) ||
+        match?.confidence !== (item.matchConfidence ?? undefined)
+      ) {
+        await prisma.lineItem.update({
+          where: { id: item.id },
+          data: {
+            matchedProductId: match?.product.id ?? null,
+            matchConfidence: match?.confidence ?? null,
+          },
+        });
+      }
+    }
+
+    if (usedAliases.size > 0) {
+      await prisma.productAlias.updateMany({
+        where: { id: { in: [...usedAliases] } },
+        data: { timesUsed: { increment: 1 } },
+      });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Find the best product for a line item. Callers matching many items
+   * should pass the products' token sets from tokenizeProducts.
+   */
+  match(
+    item: Pick<LineItem, "description" | "unit" | "category" | "subcategory">,
+    products: ProductCatalog[],
+    aliases: Map<string, ProductAlias> = new Map(),
+    tokenIndex: Map<string, Set<string>> = tokenizeProducts(products)
+  ): ProductMatch | null {
+    const normalized = normalizeDescription(item.description);
+
+    // Learned corrections win outright
+    const alias = aliases.get(normalized);
+    if (alias) {
+      const product = products.find((p) => p.id === alias.productId);
+      if (product) return { product, confidence: 1, method: "alias" };
+    }
+
+    // A manufacturer SKU printed in the description is unambiguous
+    const description = item.description.toLowerCase();
+    const skuMatch = products.find(
+      (p) => p.manufacturerSku && p.manufacturerSku.length >= 4 && description.includes(p.manufacturerSku.toLowerCase())
+    );
+    if (skuMatch) return { product: skuMatch, confidence: 0.98, method: "sku" };
+
+    const itemTokens = tokenize(normalized);
+    if (itemTokens.size === 0) return null;
+
+    let best: ProductMatch | null = null;
+
+    for (const product of products) {
+      const confidence = this.score(itemTokens, item, product, tokenIndex.get(product.id)!);
+      if (confidence > (best?.confidence ?? 0)) {
+        best = { product, confidence, method: "fuzzy" };
+      }
+    }
+
+    return best && best.confidence >= MATCH_THRESHOLD ? best : null;
+  }
+
+  /**
+   * Score a product against a line item: token overlap, adjusted for
+   * category and unit compatibility
+   */
+  private score(
+    itemTokens: Set<string>,
+    item: Pick<LineItem, "unit" | "category" | "subcategory">,
+    product: ProductCatalog,
+    productTokens: Set<string>
+  ): number {
+    let shared = 0;
+    for (const token of itemTokens) {
+      if (productTokens.has(token)) shared++;
+    }
+    if (shared === 0) return 0;
+
+    // How much of the line the product explains, blended with overall overlap
+    const containment = shared / itemTokens.size;
+    const dice = (2 * shared) / (itemTokens.size + productTokens.size);
+    let score = containment * 0.7 + dice * 0.3;
+
+    if (item.subcategory && product.subcategory?.toLowerCase() === item.subcategory.toLowerCase()) {
+      score += 0.1;
+    }
+
+    // Sizes and weights must agree when both sides give one
+    const itemSizes = [...itemTokens].filter(isMeasureToken);
+    const productSizes = [...productTokens].filter(isMeasureToken);
+    if (itemSizes.length > 0 && productSizes.length > 0 && !itemSizes.some((s) => productTokens.has(s))) {
+      score *= 0.6;
+    }
+
+    if (!isUnitCompatible(item.unit, product.unitOfMeasure)) {
+      score *= 0.5;
+    }
+
+    return Math.min(1, Math.round(score * 100) / 100);
+  }
+
+  /**
+   * Remember that a scope description means a product for this organization
+   */
+  async learnAlias(
+    organizationId: string,
+    description: string,
+    productId: string,
+    createdById?: string
+  ): Promise<ProductAlias> {
+    const normalizedDescription = normalizeDescription(description);
+
+    return prisma.productAlias.upsert({
+      where: {
+        organizationId_normalizedDescription: { organizationId, normalizedDescription },
+      },
+      create: {
+        organizationId,
+        normalizedDescription,
+        description,
+        productId,
+        createdById,
+      },
+      update: { productId, createdById },
+    });
+  }
+}
+
+/**
+ * Normalize a description: lowercase, expand Xactimate codes and abbreviations,
+ * collapse punctuation and whitespace
+ */
+export function normalizeDescription(description: string): string {
+  let text = ` ${description.toLowerCase()} `;
+
+  for (const [pattern, replacement] of XACTIMATE_CODES) {
+    text = text.replace(pattern, ` ${replacement} `);
+  }
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  return text
+    .replace(/[^a-z0-9&.\s]/g, " ")
+    .replace(/(?<!\d)\.|\.(?!\d)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Token sets for catalog products, by product id
+ */
+export function tokenizeProducts(products: ProductCatalog[]): Map<string, Set<string>> {
+  return new Map(
+    products.map((product) => [
+      product.id,
+      tokenize(
+        normalizeDescription(
+          [product.name, product.description, product.category, product.subcategory]
+            .filter(Boolean)
+            .join(" ")
+        )
+      ),
+    ])
+  );
+}
+
+/**
+ * Meaningful tokens, singularized. What follows "without" names what the
+ * item leaves out (Xactimate ends descriptions with "w/out felt"), so it
+ * isn't counted.
+ */
+function tokenize(normalized: string): Set<string> {
+  const tokens = new Set<string>();
+
+  for (const word of normalized.split(" ")) {
+    if (word === "without") break;
+    if (!word || STOPWORDS.has(word)) continue;
+    tokens.add(word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+  }
+
+  return tokens;
+}
+
+function isMeasureToken(token: string): boolean {
+  return /^\d+(?:\.\d+)?(?:in|lb)$/.test(token);
+}
+
+function isUnitCompatible(scopeUnit: string, productUnit: string): boolean {
+  const compatible = UNIT_COMPATIBILITY[scopeUnit.toUpperCase()];
+  // Unknown scope units can't rule anything out
+  return !compatible || compatible.includes(productUnit.toLowerCase());
+}
+
+// Export singleton instance
+export const productMatcher = new ProductMatcher();
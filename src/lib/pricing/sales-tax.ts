@@ -0,0 +1,203 @@
+/**
+ * Sales Tax
+ *
+ * Resolves the sales tax for a job site: the combined rate for its zip code
+ * from the SalesTaxRate table, else the state's base rate, plus whether the
+ * state taxes materials and/or labor on residential roofing. Rate tables are
+ * loaded from a CSV of zip code rates (state, zip, combined rate).
+ */
+
+import { prisma } from "@/lib/prisma";
+import { parseCsv } from "./price-import";
+
+export interface TaxJurisdiction {
+  state: string;
+  zipCode: string | null; // Set when a zip code rate applied
+  region: string | null;
+  rate: number;
+  materialTaxable: boolean;
+  laborTaxable: boolean;
+  source: "zip" | "state" | "default";
+}
+
+// Base state rates, used until a state is loaded into the tax tables
+export const STATE_SALES_TAX_RATES: Record<string, number> = {
+  AL: 0.04, AK: 0, AZ: 0.056, AR: 0.065, CA: 0.0725, CO: 0.029, CT: 0.0635,
+  DE: 0, DC: 0.06, FL: 0.06, GA: 0.04, HI: 0.04, ID: 0.06, IL: 0.0625,
+  IN: 0.07, IA: 0.06, KS: 0.065, KY: 0.06, LA: 0.05, ME: 0.055, MD: 0.06,
+  MA: 0.0625, MI: 0.06, MN: 0.06875, MS: 0.07, MO: 0.04225, MT: 0, NE: 0.055,
+  NV: 0.0685, NH: 0, NJ: 0.06625, NM: 0.04875, NY: 0.04, NC: 0.0475, ND: 0.05,
+  OH: 0.0575, OK: 0.045, OR: 0, PA: 0.06, RI: 0.07, SC: 0.06, SD: 0.042,
+  TN: 0.07, TX: 0.0625, UT: 0.0485, VT: 0.06, VA: 0.053, WA: 0.065, WV: 0.06,
+  WI: 0.05, WY: 0.04,
+};
+
+// States that tax construction labor on residential repair (gross receipts
+// or retail construction); elsewhere only materials are taxed
+export const LABOR_TAXABLE_STATES = new Set(["HI", "NM", "SD", "WA"]);
+
+const IMPORT_BATCH_SIZE = 5000;
+
+// Rate file column headers, best first
+const COLUMN_PATTERNS = {
+  state: [/^state$/i, /state\s*(?:code|abbr)/i],
+  zipCode: [/^zip\s*(?:code)?$/i, /zip|postal/i],
+  rate: [/combined\s*rate/i, /total\s*rate/i, /^(?:tax\s*)?rate$/i],
+  stateRate: [/^state\s*rate$/i],
+  region: [/region|jurisdiction/i],
+};
+
+export class SalesTaxEngine {
+  /**
+   * Tax jurisdiction for a job site
+   */
+  async lookup(state: string | null | undefined, zipCode?: string | null): Promise<TaxJurisdiction> {
+    const code = (state || "").trim().toUpperCase();
+    const zip = normalizeZip(zipCode);
+
+    const [rule, zipRate] = await Promise.all([
+      code ? prisma.salesTaxRule.findUnique({ where: { state: code } }) : null,
+      zip ? prisma.salesTaxRate.findUnique({ where: { zipCode: zip } }) : null,
+    ]);
+
+    const taxability = {
+      materialTaxable: rule?.materialTaxable ?? true,
+      laborTaxable: rule?.laborTaxable ?? LABOR_TAXABLE_STATES.has(code),
+    };
+
+    // A zip code rate only counts if it's in the job's state
+    if (zipRate && (!code || zipRate.state === code)) {
+      return {
+        state: zipRate.state,
+        zipCode: zipRate.zipCode,
+        region: zipRate.region,
+        rate: Number(zipRate.rate),
+        ...taxability,
+        source: "zip",
+      };
+    }
+
+    if (rule) {
+      return { state: code, zipCode: null, region: null, rate: Number(rule.rate), ...taxability, source: "state" };
+    }
+
+    return {
+      state: code,
+      zipCode: null,
+      region: null,
+      rate: STATE_SALES_TAX_RATES[code] ?? 0,
+      ...taxability,
+      source: "default",
+    };
+  }
+
+  /**
+   * Load zip code rates from a CSV. Rates may be fractions (0.0825) or
+   * percents (8.25). Each state in the file has its zip code rates replaced.
+   * A state rate column, if present, updates the state's base rate;
+   * taxability rules are left as they are.
+   */
+  async importCsv(text: string): Promise<{ zipCodes: number; states: number; skipped: number }> {
+    const rows = parseCsv(text.replace(/^\uFEFF/, "")).filter((row) => row.some((cell) => cell.trim()));
+    const headers = (rows.shift() || []).map((header) => header.trim());
+
+    const column = (patterns: RegExp[]) => {
+      for (const pattern of patterns) {
+        const index = headers.findIndex((header) => pattern.test(header));
+        if (index !== -1) return index;
+      }
+      return -1;
+    };
+
+    const stateColumn = column(COLUMN_PATTERNS.state);
+    const zipColumn = column(COLUMN_PATTERNS.zipCode);
+    const rateColumn = column(COLUMN_PATTERNS.rate);
+    const stateRateColumn = column(COLUMN_PATTERNS.stateRate);
+    const regionColumn = column(COLUMN_PATTERNS.region);
+
+    if (stateColumn === -1 || zipColumn === -1 || rateColumn === -1) {
+      throw new Error("Tax rate file needs state, zip code and rate columns");
+    }
+
+    const zipRates = new Map<string, { state: string; rate: number; region: string | null }>();
+    const stateRates = new Map<string, number>();
+    let skipped = 0;
+
+    for (const row of rows) {
+      const state = (row[stateColumn] || "").trim().toUpperCase();
+      const zipCode = normalizeZip(row[zipColumn]);
+      const rate = parseRate(row[rateColumn]);
+
+      if (!/^[A-Z]{2}$/.test(state) || !zipCode || rate === null) {
+        skipped++;
+        continue;
+      }
+
+      zipRates.set(zipCode, {
+        state,
+        rate,
+        region: regionColumn !== -1 ? row[regionColumn]?.trim() || null : null,
+      });
+
+      const stateRate = stateRateColumn !== -1 ? parseRate(row[stateRateColumn]) : null;
+      if (stateRate !== null) stateRates.set(state, stateRate);
+    }
+
+    const data = [...zipRates.entries()].map(([zipCode, row]) => ({ zipCode, ...row }));
+    const states = [...new Set(data.map((row) => row.state))];
+
+    // A full rate file runs to tens of thousands of rows
+    const batches = [];
+    for (let i = 0; i < data.length; i += IMPORT_BATCH_SIZE) {
+      batches.push(prisma.salesTaxRate.createMany({ data: data.slice(i, i + IMPORT_BATCH_SIZE) }));
+    }
+
+    await prisma.$transaction([
+      prisma.salesTaxRate.deleteMany({ where: { state: { in: states } } }),
+      ...batches,
+      ...[...stateRates.entries()].map(([state, rate]) =>
+        prisma.salesTaxRule.upsert({
+          where: { state },
+          create: { state, rate, laborTaxable: LABOR_TAXABLE_STATES.has(state) },
+          update: { rate },
+        })
+      ),
+    ]);
+
+    return { zipCodes: zipRates.size, states: stateRates.size, skipped };
+  }
+}
+
+/**
+ * Short label for where a rate came from, e.g. "TX 78701 (Austin)"
+ */
+export function formatJurisdiction(jurisdiction: TaxJurisdiction): string | null {
+  if (!jurisdiction.state) return null;
+  if (!jurisdiction.zipCode) return `${jurisdiction.state} (state rate)`;
+
+  const label = `${jurisdiction.state} ${jurisdiction.zipCode}`;
+  return jurisdiction.region ? `${label} (${jurisdiction.region})` : label;
+}
+
+/**
+ * Five-digit zip code, or null (ZIP+4 is truncated, leading zeros restored)
+ */
+function normalizeZip(zipCode: string | null | undefined): string | null {
+  const digits = (zipCode || "").trim().match(/^(\d{3,5})(?:-\d{4})?$/)?.[1];
+  return digits ? digits.padStart(5, "0") : null;
+}
+
+/**
+ * A rate as a fraction. "0.5%" is a percent; a bare number is a percent only
+ * if it is 1 or more, since no sales tax rate reaches 100%.
+ */
+function parseRate(value: string | undefined): number | null {
+  if (!value) return null;
+  const rate = Number(value.replace(/[%\s]/g, ""));
+  if (!Number.isFinite(rate) || rate < 0) return null;
+  if (value.includes("%")) return rate / 100;
+  return rate >= 1 ? rate / 100 : rate;
+}
+
+// Export singleton instance
+export const salesTaxEngine = new SalesTaxEngine();
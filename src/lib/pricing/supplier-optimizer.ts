@@ -0,0 +1,312 @@
+/**
+ * Supplier Optimizer
+ *
+ * Turns an estimate's materials into a purchase plan: the set of suppliers
+ * (no more than the organization allows per job) with the lowest total
+ * delivered cost, respecting each supplier's delivery fee and minimum order.
+ * Within a set, items start at their cheapest supplier and are moved to
+ * another whenever that reaches a minimum order or waives a delivery fee for
+ * less than it saves. The plan is compared against buying everything from a
+ * single supplier.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { supplierPricing, type SupplierQuote } from "./supplier-prices";
+import type { PricedItem } from "./calculator";
+import type { SupplierConfiguration } from "@prisma/client";
+
+export interface PlanItem {
+  itemId: string;
+  productId: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  totalPrice: number;
+  sku?: string;
+}
+
+export interface SupplierOrder {
+  supplier: string;
+  items: PlanItem[];
+  subtotal: number;
+  deliveryFee: number;
+  total: number;
+}
+
+export interface PurchasePlan {
+  suppliers: SupplierOrder[];
+  unassigned: { itemId: string; description: string }[]; // No quote from the plan's suppliers
+  materialCost: number;
+  deliveryFees: number;
+  totalCost: number;
+}
+
+export interface OptimizationResult {
+  plan: PurchasePlan | null;
+  singleSupplier: PurchasePlan | null;      // Cheapest plan using one supplier
+  savingsVsSingleSupplier: number | null;
+  maxSuppliers: number;
+  alternatives: { suppliers: string[]; totalCost: number; unassignedCount: number }[];
+}
+
+// An item and the quotes for it from a plan's suppliers, cheapest first
+interface Sourcing {
+  item: PricedItem;
+  quantity: number;
+  quotes: SupplierQuote[];
+}
+
+interface SupplierTerms {
+  supplier: string;
+  deliveryFee: number;
+  freeDeliveryMinimum: number | null;
+  minimumOrder: number;
+}
+
+export class SupplierOptimizer {
+  /**
+   * Optimize the material items of an estimate for an organization
+   */
+  async optimize(items: PricedItem[], organizationId: string): Promise<OptimizationResult> {
+    const [organization, configs] = await Promise.all([
+      prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { maxSuppliersPerJob: true },
+      }),
+      prisma.supplierConfiguration.findMany({
+        where: { organizationId, isEnabled: true },
+      }),
+    ]);
+
+    const materials = items.filter((item) => item.productId && item.supplier !== "labor");
+    const quotes = await supplierPricing.getQuotes(
+      [...new Set(materials.map((item) => item.productId!))],
+      organizationId
+    );
+
+    return this.plan(
+      materials,
+      quotes,
+      configs.map(toTerms),
+      Math.max(1, organization?.maxSuppliersPerJob ?? 2)
+    );
+  }
+
+  /**
+   * Evaluate every allowed supplier combination and pick the cheapest plan
+   * that covers the most items
+   */
+  plan(
+    items: PricedItem[],
+    quotes: Map<string, SupplierQuote[]>,
+    terms: SupplierTerms[],
+    maxSuppliers: number
+  ): OptimizationResult {
+    const candidates: PurchasePlan[] = [];
+
+    for (const subset of combinations(terms, maxSuppliers)) {
+      const plan = this.buildPlan(items, quotes, subset);
+      if (plan) candidates.push(plan);
+    }
+
+    // Coverage first: a cheaper plan that can't source an item isn't cheaper
+    const ranked = candidates.sort(
+      (a, b) => a.unassigned.length - b.unassigned.length || a.totalCost - b.totalCost
+    );
+    const plan = ranked[0] || null;
+    const singleSupplier = ranked.find((p) => p.suppliers.length === 1) || null;
+
+    return {
+      plan,
+      singleSupplier,
+      savingsVsSingleSupplier:
+        plan && singleSupplier && singleSupplier.unassigned.length === plan.unassigned.length
+          ? round2(singleSupplier.totalCost - plan.totalCost)
+          : null,
+      maxSuppliers,
+      alternatives: ranked.slice(0, 5).map((p) => ({
+        suppliers: p.suppliers.map((s) => s.supplier),
+        totalCost: p.totalCost,
+        unassignedCount: p.unassigned.length,
+      })),
+    };
+  }
+
+  /**
+   * Find the cheapest assignment of items to the suppliers in the set: start
+   * from each item's cheapest quote, then keep moving items to a supplier
+   * until it reaches its minimum order or free delivery, while that lowers
+   * the total. Returns null when no assignment uses every supplier above its
+   * minimum order - a smaller set covers that case.
+   */
+  private buildPlan(
+    items: PricedItem[],
+    quotes: Map<string, SupplierQuote[]>,
+    suppliers: SupplierTerms[]
+  ): PurchasePlan | null {
+    const names = new Set(suppliers.map((s) => s.supplier));
+    const sourcing: Sourcing[] = [];
+    const unassigned: PurchasePlan["unassigned"] = [];
+
+    for (const item of items) {
+      const itemQuotes = (quotes.get(item.productId!) || [])
+        .filter((quote) => names.has(quote.supplier))
+        .sort((a, b) => a.price - b.price);
+
+      if (itemQuotes.length === 0) {
+        unassigned.push({ itemId: item.id, description: item.description });
+      } else {
+        sourcing.push({ item, quantity: item.supplierQuantity ?? item.quantity, quotes: itemQuotes });
+      }
+    }
+
+    let choice = sourcing.map((s) => s.quotes[0]);
+    let plan = this.pricePlan(sourcing, choice, suppliers, unassigned);
+
+    // Every accepted move lowers the total, so this ends
+    for (let improved = true; improved; ) {
+      improved = false;
+
+      for (const terms of suppliers) {
+        for (const threshold of [terms.minimumOrder, terms.freeDeliveryMinimum]) {
+          if (!threshold) continue;
+
+          const moved = fillToThreshold(sourcing, choice, terms.supplier, threshold);
+          if (!moved) continue;
+
+          const candidate = this.pricePlan(sourcing, moved, suppliers, unassigned);
+          if (candidate && (!plan || candidate.totalCost < plan.totalCost)) {
+            choice = moved;
+            plan = candidate;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Total up the orders for one assignment of items to suppliers. Null when a
+   * supplier ends up unused or under its minimum order.
+   */
+  private pricePlan(
+    sourcing: Sourcing[],
+    choice: SupplierQuote[],
+    suppliers: SupplierTerms[],
+    unassigned: PurchasePlan["unassigned"]
+  ): PurchasePlan | null {
+    const orders = new Map<string, SupplierOrder>(
+      suppliers.map((s) => [s.supplier, { supplier: s.supplier, items: [], subtotal: 0, deliveryFee: 0, total: 0 }])
+    );
+
+    sourcing.forEach(({ item, quantity }, i) => {
+      const quote = choice[i];
+      const order = orders.get(quote.supplier)!;
+      const totalPrice = round2(quote.price * quantity);
+
+      order.items.push({
+        itemId: item.id,
+        productId: item.productId!,
+        description: item.productName || item.description,
+        quantity,
+        unit: item.supplierUnit || item.unit,
+        unitPrice: quote.price,
+        totalPrice,
+        sku: quote.sku,
+      });
+      order.subtotal = round2(order.subtotal + totalPrice);
+    });
+
+    for (const terms of suppliers) {
+      const order = orders.get(terms.supplier)!;
+      if (order.items.length === 0 || order.subtotal < terms.minimumOrder) return null;
+
+      const waived = terms.freeDeliveryMinimum !== null && order.subtotal >= terms.freeDeliveryMinimum;
+      order.deliveryFee = waived ? 0 : terms.deliveryFee;
+      order.total = round2(order.subtotal + order.deliveryFee);
+    }
+
+    const placed = [...orders.values()].sort((a, b) => b.total - a.total);
+    const materialCost = round2(placed.reduce((sum, o) => sum + o.subtotal, 0));
+    const deliveryFees = round2(placed.reduce((sum, o) => sum + o.deliveryFee, 0));
+
+    return {
+      suppliers: placed,
+      unassigned,
+      materialCost,
+      deliveryFees,
+      totalCost: round2(materialCost + deliveryFees),
+    };
+  }
+}
+
+/**
+ * Move items to a supplier, those it costs least to move first, until its
+ * order reaches the threshold. Null if it is already there or can't get there.
+ */
+function fillToThreshold(
+  sourcing: Sourcing[],
+  choice: SupplierQuote[],
+  supplier: string,
+  threshold: number
+): SupplierQuote[] | null {
+  const lineTotal = (i: number, quote: SupplierQuote) => round2(quote.price * sourcing[i].quantity);
+
+  let subtotal = choice.reduce((sum, quote, i) => (quote.supplier === supplier ? sum + lineTotal(i, quote) : sum), 0);
+  if (subtotal >= threshold) return null;
+
+  const moves = sourcing
+    .map((s, i) => ({ i, quote: s.quotes.find((quote) => quote.supplier === supplier) }))
+    .filter((move): move is { i: number; quote: SupplierQuote } => !!move.quote && choice[move.i].supplier !== supplier)
+    .map((move) => ({ ...move, extra: lineTotal(move.i, move.quote) - lineTotal(move.i, choice[move.i]) }))
+    .sort((a, b) => a.extra - b.extra);
+
+  const next = [...choice];
+  for (const move of moves) {
+    next[move.i] = move.quote;
+    subtotal += lineTotal(move.i, move.quote);
+    if (subtotal >= threshold) return next;
+  }
+
+  return null;
+}
+
+function toTerms(config: SupplierConfiguration): SupplierTerms {
+  return {
+    supplier: config.supplier,
+    deliveryFee: Number(config.deliveryFee) || 0,
+    freeDeliveryMinimum: config.freeDeliveryMinimum !== null ? Number(config.freeDeliveryMinimum) : null,
+    minimumOrder: Number(config.minimumOrder) || 0,
+  };
+}
+
+/**
+ * Every non-empty subset of up to maxSize elements
+ */
+function combinations<T>(values: T[], maxSize: number): T[][] {
+  const result: T[][] = [];
+
+  const visit = (start: number, current: T[]) => {
+    if (current.length > 0) result.push([...current]);
+    if (current.length === maxSize) return;
+
+    for (let i = start; i < values.length; i++) {
+      current.push(values[i]);
+      visit(i + 1, current);
+      current.pop();
+    }
+  };
+
+  visit(0, []);
+  return result;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const supplierOptimizer = new SupplierOptimizer();
@@ -0,0 +1,217 @@
+/**
+ * Supplier Prices
+ *
+ * Resolves what an organization pays each of its enabled suppliers for a
+ * product. Its own prices, negotiated or imported, beat list prices, and a
+ * price quoted for its branch beats one for all branches. Every price write
+ * is recorded in ProductPriceHistory so prices can be resolved as of a date.
+ */
+
+import { randomUUID } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { Prisma, SupplierConfiguration, SupplierPrice } from "@prisma/client";
+
+export interface SupplierQuote {
+  supplier: string;
+  price: number;
+  sku?: string;
+  negotiated: boolean;
+  supplierPriceId: string;
+}
+
+export interface PriceWrite {
+  productId: string;
+  supplier: string;
+  supplierConfigId?: string | null; // Organization's own price; null writes the shared list price
+  branch?: string | null;
+  sku?: string | null;
+  price: number;
+  effectiveDate?: Date;
+  importId?: string;
+}
+
+type PrismaTx = Prisma.TransactionClient;
+
+export class SupplierPricing {
+  /**
+   * Quotes from each of the organization's enabled suppliers, per product
+   */
+  async getQuotes(
+    productIds: string[],
+    organizationId: string,
+    asOf?: Date
+  ): Promise<Map<string, SupplierQuote[]>> {
+    const quotes = new Map<string, SupplierQuote[]>();
+    if (productIds.length === 0) return quotes;
+
+    const configs = await prisma.supplierConfiguration.findMany({
+      where: { organizationId, isEnabled: true },
+    });
+    if (configs.length === 0) return quotes;
+
+    const rows = await prisma.supplierPrice.findMany({
+      where: {
+        productId: { in: productIds },
+        supplier: { in: configs.map((c) => c.supplier) },
+        OR: [{ supplierConfigId: null }, { supplierConfigId: { in: configs.map((c) => c.id) } }],
+      },
+    });
+
+    const prices = asOf ? await this.pricesAsOf(rows, asOf) : currentPrices(rows);
+
+    for (const productId of productIds) {
+      const productRows = rows.filter((row) => row.productId === productId);
+      const productQuotes: SupplierQuote[] = [];
+
+      for (const config of configs) {
+        const row = selectPrice(productRows, config, prices);
+        if (!row) continue;
+
+        const { price, sku } = prices.get(row.id)!;
+        productQuotes.push({
+          supplier: config.supplier,
+          price,
+          sku: sku || undefined,
+          negotiated: row.supplierConfigId !== null,
+          supplierPriceId: row.id,
+        });
+      }
+
+      quotes.set(productId, productQuotes);
+    }
+
+    return quotes;
+  }
+
+  /**
+   * Create or update a price row and record it in the price history. A price
+   * older than the row's current one only adds history.
+   */
+  async setPrice(data: PriceWrite, tx: PrismaTx = prisma): Promise<{ updated: boolean }> {
+    const { updated } = await this.setPrices([data], tx);
+    return { updated: updated === 1 };
+  }
+
+  /**
+   * setPrice for many rows at once, with one write per price row. Existing
+   * rows are read in one query and new rows and history inserted in bulk,
+   * so a full price sheet fits in one transaction.
+   */
+  async setPrices(writes: PriceWrite[], tx: PrismaTx = prisma): Promise<{ updated: number; skipped: number }> {
+    if (writes.length === 0) return { updated: 0, skipped: 0 };
+
+    const existingRows = await tx.supplierPrice.findMany({
+      where: {
+        productId: { in: [...new Set(writes.map((data) => data.productId))] },
+        supplier: { in: [...new Set(writes.map((data) => data.supplier))] },
+      },
+    });
+    const existing = new Map(existingRows.map((row) => [priceKey(row), row]));
+
+    const created: Prisma.SupplierPriceCreateManyInput[] = [];
+    const history: Prisma.ProductPriceHistoryCreateManyInput[] = [];
+    let updated = 0;
+
+    for (const data of writes) {
+      const effectiveDate = data.effectiveDate || new Date();
+      const row = existing.get(priceKey(data));
+      const id = row?.id ?? randomUUID();
+
+      if (!row) {
+        created.push({
+          id,
+          productId: data.productId,
+          supplier: data.supplier,
+          supplierConfigId: data.supplierConfigId ?? null,
+          branch: data.branch ?? null,
+          sku: data.sku ?? null,
+          price: data.price,
+          effectiveDate,
+        });
+        updated++;
+      } else if (row.effectiveDate <= effectiveDate) {
+        await tx.supplierPrice.update({
+          where: { id },
+          data: { sku: data.sku ?? row.sku, price: data.price, effectiveDate },
+        });
+        updated++;
+      }
+
+      history.push({
+        supplierPriceId: id,
+        productId: data.productId,
+        supplier: data.supplier,
+        sku: data.sku ?? row?.sku ?? null,
+        price: data.price,
+        effectiveDate,
+        importId: data.importId,
+      });
+    }
+
+    await tx.supplierPrice.createMany({ data: created });
+    await tx.productPriceHistory.createMany({ data: history });
+
+    return { updated, skipped: writes.length - updated };
+  }
+
+  /**
+   * The price each row had on a date, from its history. Rows with no history
+   * on or before the date are left out.
+   */
+  private async pricesAsOf(
+    rows: SupplierPrice[],
+    asOf: Date
+  ): Promise<Map<string, { price: number; sku: string | null }>> {
+    const history = await prisma.productPriceHistory.findMany({
+      where: {
+        supplierPriceId: { in: rows.map((row) => row.id) },
+        effectiveDate: { lte: asOf },
+      },
+      orderBy: [{ effectiveDate: "desc" }, { createdAt: "desc" }],
+    });
+
+    const prices = new Map<string, { price: number; sku: string | null }>();
+    for (const entry of history) {
+      if (!prices.has(entry.supplierPriceId)) {
+        prices.set(entry.supplierPriceId, { price: Number(entry.price), sku: entry.sku });
+      }
+    }
+
+    return prices;
+  }
+}
+
+/**
+ * Pick the price row that applies to an organization's supplier configuration
+ */
+function selectPrice(
+  rows: SupplierPrice[],
+  config: SupplierConfiguration,
+  prices: Map<string, unknown>
+): SupplierPrice | null {
+  const rank = (row: SupplierPrice): number => {
+    if (row.supplier !== config.supplier || !prices.has(row.id)) return -1;
+    if (row.supplierConfigId !== null && row.supplierConfigId !== config.id) return -1;
+    if (row.branch !== null && row.branch !== config.branch) return -1;
+
+    return (row.supplierConfigId !== null ? 2 : 0) + (row.branch !== null ? 1 : 0);
+  };
+
+  let best: SupplierPrice | null = null;
+  for (const row of rows) {
+    if (rank(row) > (best ? rank(best) : -1)) best = row;
+  }
+
+  return best;
+}
+
+function priceKey(row: Pick<PriceWrite, "productId" | "supplier" | "supplierConfigId" | "branch">): string {
+  return [row.productId, row.supplier, row.supplierConfigId ?? "", row.branch ?? ""].join("|");
+}
+
+function currentPrices(rows: SupplierPrice[]): Map<string, { price: number; sku: string | null }> {
+  return new Map(rows.map((row) => [row.id, { price: Number(row.price), sku: row.sku }]));
+}
+
+// Export singleton instance
+export const supplierPricing = new SupplierPricing();
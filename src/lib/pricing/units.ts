@@ -0,0 +1,158 @@
+/**
+ * Unit Conversion
+ *
+ * Converts scope quantities (SQ, SF, LF, EA) into the units a supplier sells
+ * (bundles, rolls, pieces, each) using the product's coverage, adding ordering
+ * waste and rounding up to whole units.
+ */
+
+import type { ProductCatalog } from "@prisma/client";
+
+export interface UnitConversion {
+  supplierQuantity: number; // Whole purchasable units
+  supplierUnit: string;
+  factor: number;           // Supplier units per scope unit, waste included
+  exact: boolean;           // False when no coverage was known and 1:1 was assumed
+}
+
+type Dimension = "area" | "length" | "count";
+
+// Scope units in their base measure (sq ft, linear ft, count)
+const SCOPE_UNITS: Record<string, { dimension: Dimension; base: number }> = {
+  SQ: { dimension: "area", base: 100 },
+  SF: { dimension: "area", base: 1 },
+  LF: { dimension: "length", base: 1 },
+  EA: { dimension: "count", base: 1 },
+};
+
+// Supplier units that are themselves a measure
+const MEASURE_UNITS: Record<string, { dimension: Dimension; coverage: number }> = {
+  square: { dimension: "area", coverage: 100 },
+  sq_ft: { dimension: "area", coverage: 1 },
+  linear_foot: { dimension: "length", coverage: 1 },
+  each: { dimension: "count", coverage: 1 },
+};
+
+// What a package's coverage is measured in, for categories that don't say
+const PACKAGE_DIMENSIONS: Record<string, Dimension> = {
+  bundle: "area",
+  roll: "area",
+  pallet: "area",
+  sheet: "area",
+  coil: "length",
+  piece: "length",
+  box: "count",
+};
+
+// Typical coverage by product category when the catalog has none
+// (same rules of thumb as calculateMaterialQuantities)
+const DEFAULT_COVERAGE: Record<string, Partial<Record<Dimension, number>>> = {
+  shingles: { area: 100 / 3 },
+  underlayment: { area: 400 },
+  starter: { length: 100 },
+  hip_ridge: { length: 20 },
+  drip_edge: { length: 10 },
+  ice_water: { area: 195, length: 65 },
+  valley: { length: 10 },
+  flashing: { length: 10 },
+  nails: { area: 120 },
+};
+
+// Ordering waste on top of the scope quantity. Carrier squares for shingles
+// already include waste; linear goods lose material to laps and cuts.
+const ORDER_WASTE: Record<string, number> = {
+  underlayment: 0.1,
+  ice_water: 0.1,
+  starter: 0.05,
+  hip_ridge: 0.05,
+  drip_edge: 0.05,
+  valley: 0.05,
+  flashing: 0.1,
+};
+
+/**
+ * Convert a scope quantity into whole supplier units of a product
+ */
+export function convertToSupplierUnits(
+  quantity: number,
+  scopeUnit: string,
+  product: Pick<ProductCatalog, "category" | "unitOfMeasure" | "coveragePerUnit">,
+  wastePercent: number = ORDER_WASTE[product.category] ?? 0
+): UnitConversion {
+  const supplierUnit = product.unitOfMeasure;
+  const scope = SCOPE_UNITS[scopeUnit.toUpperCase()];
+  const coverage = scope ? getCoverage(product, scope.dimension) : null;
+
+  if (!scope || !coverage) {
+    return {
+      supplierQuantity: roundUp(quantity),
+      supplierUnit,
+      factor: 1,
+      exact: false,
+    };
+  }
+
+  // Count items are bought as counted; waste applies to cut goods
+  const waste = scope.dimension === "count" ? 0 : wastePercent;
+  // Three significant digits, so a catalog coverage of 33.3 sq ft still
+  // means 3 bundles per square rather than 3.003
+  const factor = Number(((scope.base * (1 + waste)) / coverage).toPrecision(3));
+
+  return {
+    supplierQuantity: roundUp(quantity * factor),
+    supplierUnit,
+    factor,
+    exact: true,
+  };
+}
+
+/**
+ * Re-apply a stored conversion factor to a new scope quantity
+ */
+export function applyConversionFactor(quantity: number, factor: number): number {
+  return roundUp(quantity * factor);
+}
+
+/**
+ * Coverage of one supplier unit in the scope unit's base measure, if known.
+ * The catalog's coverage only counts for the dimension it is measured in, so
+ * a box of 50 is never read as 50 sq ft.
+ */
+function getCoverage(
+  product: Pick<ProductCatalog, "category" | "unitOfMeasure" | "coveragePerUnit">,
+  dimension: Dimension
+): number | null {
+  const measure = MEASURE_UNITS[product.unitOfMeasure.toLowerCase()];
+  if (measure) {
+    return measure.dimension === dimension ? measure.coverage : null;
+  }
+
+  if (product.coveragePerUnit && coverageDimension(product) === dimension) {
+    return product.coveragePerUnit;
+  }
+
+  if (dimension === "count") {
+    return 1;
+  }
+
+  return DEFAULT_COVERAGE[product.category]?.[dimension] || null;
+}
+
+/**
+ * The dimension a product's catalog coverage is measured in: its category's
+ * when that has only one (ridge cap bundles cover LF), otherwise its package's
+ */
+function coverageDimension(product: Pick<ProductCatalog, "category" | "unitOfMeasure">): Dimension | null {
+  const categoryDimensions = Object.keys(DEFAULT_COVERAGE[product.category] || {}) as Dimension[];
+  if (categoryDimensions.length === 1) {
+    return categoryDimensions[0];
+  }
+
+  return PACKAGE_DIMENSIONS[product.unitOfMeasure.toLowerCase()] ?? null;
+}
+
+function roundUp(value: number): number {
+  if (value <= 0) return 0;
+  // Tolerate float noise such as 30 * 3.0000000001
+  return Math.max(1, Math.ceil(value - 1e-6));
+}
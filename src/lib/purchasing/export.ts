@@ -0,0 +1,123 @@
+/**
+ * Purchase Order Export
+ *
+ * Renders a purchase order as a PDF order sheet for the supplier and as a CSV
+ * for suppliers that take orders by spreadsheet upload. Both carry the
+ * organization's account number with that supplier.
+ */
+
+import { PdfWriter } from "@/lib/pdf/writer";
+import { writeLetterhead, type Branding } from "@/lib/pdf/branding";
+import { csvCell, formatCurrency, formatDate } from "@/lib/utils";
+import type { Job, PurchaseOrder } from "@prisma/client";
+import type { OrderLine } from "./orders";
+
+const CSV_COLUMNS = [
+  "PO Number",
+  "Account Number",
+  "SKU",
+  "Description",
+  "Quantity",
+  "Unit",
+  "Unit Price",
+  "Extended Price",
+  "Delivery Address",
+  "Delivery Date",
+];
+
+/**
+ * Render a purchase order as a CSV, one row per order line
+ */
+export function purchaseOrderCsv(purchaseOrder: PurchaseOrder): string {
+  const lines = purchaseOrder.items as unknown as OrderLine[];
+
+  const rows = lines.map((line) => [
+    purchaseOrder.poNumber,
+    purchaseOrder.accountNumber || "",
+    line.sku || "",
+    line.description,
+    String(line.quantity),
+    formatUnit(line.unit),
+    line.unitPrice.toFixed(2),
+    line.totalPrice.toFixed(2),
+    purchaseOrder.deliveryAddress,
+    purchaseOrder.deliveryDate ? purchaseOrder.deliveryDate.toISOString().slice(0, 10) : "",
+  ]);
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Render a purchase order as a PDF order sheet
+ */
+export async function renderPurchaseOrderPdf(data: {
+  branding: Branding;
+  job: Job;
+  purchaseOrder: PurchaseOrder;
+}): Promise<Uint8Array> {
+  const { branding, job, purchaseOrder } = data;
+  const lines = purchaseOrder.items as unknown as OrderLine[];
+
+  const writer = await PdfWriter.create({
+    title: `Purchase Order ${purchaseOrder.poNumber}`,
+    footer: `${branding.name} • ${purchaseOrder.poNumber} • Job ${job.jobNumber}`,
+  });
+
+  await writeLetterhead(writer, branding);
+  writer.heading(`Purchase Order ${purchaseOrder.poNumber}`, 18, branding.color);
+  writer.spacer(6);
+
+  writer.keyValues([
+    ["Supplier", purchaseOrder.supplier],
+    ["Account Number", purchaseOrder.accountNumber || "—"],
+    ["Order Date", formatDate(purchaseOrder.createdAt)],
+    ["Job", `${job.jobNumber} - ${job.customerName}`],
+    ["Deliver To", purchaseOrder.deliveryAddress],
+    ["Delivery Date", purchaseOrder.deliveryDate ? formatDate(purchaseOrder.deliveryDate) : "Call to schedule"],
+  ]);
+
+  if (purchaseOrder.notes) {
+    writer.spacer(8);
+    writer.text("Delivery Notes", { bold: true });
+    writer.text(purchaseOrder.notes);
+  }
+
+  writer.spacer(8);
+  writer.table(
+    [
+      { header: "#", width: 0.05 },
+      { header: "SKU", width: 0.15 },
+      { header: "Description", width: 0.4 },
+      { header: "Qty", width: 0.14, align: "right" },
+      { header: "Unit Price", width: 0.12, align: "right" },
+      { header: "Total", width: 0.14, align: "right" },
+    ],
+    lines.map((line, index) => [
+      String(index + 1),
+      line.sku || "—",
+      line.description,
+      `${line.quantity} ${formatUnit(line.unit)}`,
+      formatCurrency(line.unitPrice),
+      formatCurrency(line.totalPrice),
+    ])
+  );
+
+  writer.spacer(12);
+  writer.keyValues([
+    ["Subtotal", formatCurrency(Number(purchaseOrder.subtotal))],
+    ["Delivery", formatCurrency(Number(purchaseOrder.deliveryFee))],
+    ["Order Total", formatCurrency(Number(purchaseOrder.total))],
+  ]);
+
+  writer.spacer(12);
+  writer.text(
+    `Please reference ${purchaseOrder.poNumber} on the delivery ticket and invoice. Prices are as quoted; contact us before substituting any item.`,
+    { size: 9 }
+  );
+
+  return writer.save();
+}
+
+function formatUnit(unit: string): string {
+  return unit.replace(/_/g, " ");
+}
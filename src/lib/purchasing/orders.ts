@@ -0,0 +1,280 @@
+/**
+ * Purchase Orders
+ *
+ * Turns an accepted estimate's priced materials into one purchase order per
+ * supplier, with lines grouped by supplier SKU and delivery to the job site.
+ * Draft orders are replaced when regenerated; once an order has been sent
+ * the estimate's orders are left alone.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { supplierOptimizer } from "@/lib/pricing/supplier-optimizer";
+import type { PricedItem } from "@/lib/pricing/calculator";
+import type { Job, PurchaseOrder, SupplierConfiguration } from "@prisma/client";
+
+export interface OrderLine {
+  sku: string | null;
+  productId: string | null;
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  totalPrice: number;
+  itemIds: string[]; // Estimate items this line covers
+}
+
+export interface PurchaseOrderOptions {
+  optimize?: boolean; // Split by the cheapest delivered purchase plan instead of the estimate's suppliers
+  deliveryDate?: Date;
+  notes?: string;
+}
+
+export interface PurchaseOrderResult {
+  purchaseOrders: PurchaseOrder[];
+  unsourced: { itemId: string; description: string }[]; // Materials with no supplier to order from
+}
+
+interface SupplierLines {
+  supplier: string;
+  lines: OrderLine[];
+  deliveryFee?: number; // Set when the purchase plan already applied the supplier's terms
+}
+
+export type PurchaseOrderStatus = "draft" | "sent" | "confirmed" | "delivered";
+
+// Allowed moves from each status. Orders only move forward: a sent order
+// never goes back to draft, where regenerating would delete it.
+export const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ["sent"],
+  sent: ["confirmed", "delivered"],
+  confirmed: ["delivered"],
+  delivered: [],
+};
+
+export class PurchaseOrderBuilder {
+  /**
+   * Create the purchase orders for an accepted estimate
+   */
+  async createFromEstimate(
+    estimateId: string,
+    options: PurchaseOrderOptions = {}
+  ): Promise<PurchaseOrderResult> {
+    const estimate = await prisma.estimate.findUnique({
+      where: { id: estimateId },
+      include: { job: true, purchaseOrders: true },
+    });
+
+    if (!estimate) {
+      throw new Error("Estimate not found");
+    }
+
+    if (estimate.status !== "accepted") {
+      throw new Error("Purchase orders can only be created from an accepted estimate");
+    }
+
+    if (estimate.purchaseOrders.some((po) => po.status !== "draft")) {
+      throw new Error("Purchase orders for this estimate have already been sent");
+    }
+
+    const { job } = estimate;
+    const materials = (estimate.lineItems as unknown as PricedItem[]).filter(
+      (item) => item.supplier !== "labor" && item.category.toLowerCase() !== "labor"
+    );
+
+    const { orders, unsourced } = options.optimize
+      ? await this.groupByPlan(materials, job.organizationId)
+      : this.groupBySupplier(materials);
+
+    if (orders.length === 0) {
+      throw new Error("No priced materials to order");
+    }
+
+    const configs = await prisma.supplierConfiguration.findMany({
+      where: { organizationId: job.organizationId },
+    });
+
+    const purchaseOrders = await prisma.$transaction(async (tx) => {
+      await tx.purchaseOrder.deleteMany({ where: { estimateId, status: "draft" } });
+
+      const existing = await tx.purchaseOrder.findMany({
+        where: { jobId: job.id },
+        select: { poNumber: true },
+      });
+      let sequence = Math.max(0, ...existing.map((po) => poSequence(po.poNumber)));
+
+      const created: PurchaseOrder[] = [];
+      for (const order of orders) {
+        const config = configs.find((c) => c.supplier === order.supplier);
+        const subtotal = round2(order.lines.reduce((sum, line) => sum + line.totalPrice, 0));
+        const deliveryFee = order.deliveryFee ?? deliveryFeeFor(config, subtotal);
+
+        created.push(
+          await tx.purchaseOrder.create({
+            data: {
+              organizationId: job.organizationId,
+              jobId: job.id,
+              estimateId,
+              poNumber: formatPoNumber(job, ++sequence),
+              supplier: order.supplier,
+              accountNumber: config?.accountNumber || null,
+              deliveryAddress: formatDeliveryAddress(job),
+              deliveryDate: options.deliveryDate,
+              notes: options.notes,
+              items: order.lines as object,
+              subtotal,
+              deliveryFee,
+              total: round2(subtotal + deliveryFee),
+            },
+          })
+        );
+      }
+
+      return created;
+    });
+
+    return { purchaseOrders, unsourced };
+  }
+
+  /**
+   * Group materials by the supplier each was priced with on the estimate
+   */
+  groupBySupplier(items: PricedItem[]): { orders: SupplierLines[]; unsourced: PurchaseOrderResult["unsourced"] } {
+    const bySupplier = new Map<string, PricedItem[]>();
+    const unsourced: PurchaseOrderResult["unsourced"] = [];
+
+    for (const item of items) {
+      if (!item.supplier || !item.totalPrice) {
+        unsourced.push({ itemId: item.id, description: item.description });
+        continue;
+      }
+      bySupplier.set(item.supplier, [...(bySupplier.get(item.supplier) || []), item]);
+    }
+
+    const orders = [...bySupplier.entries()].map(([supplier, supplierItems]) => ({
+      supplier,
+      lines: groupLines(
+        supplierItems.map((item) => ({
+          itemId: item.id,
+          sku: item.sku || null,
+          productId: item.productId || null,
+          description: item.productName || item.description,
+          quantity: item.supplierQuantity ?? item.quantity,
+          unit: item.supplierUnit || item.unit,
+          totalPrice: item.totalPrice!,
+        }))
+      ),
+    }));
+
+    return { orders, unsourced };
+  }
+
+  /**
+   * Group materials by the supplier the purchase plan assigns them to, at
+   * today's prices
+   */
+  private async groupByPlan(
+    items: PricedItem[],
+    organizationId: string
+  ): Promise<{ orders: SupplierLines[]; unsourced: PurchaseOrderResult["unsourced"] }> {
+    const { plan } = await supplierOptimizer.optimize(items, organizationId);
+    if (!plan) {
+      throw new Error("No supplier can fill this order");
+    }
+
+    const planned = new Set(plan.suppliers.flatMap((order) => order.items.map((item) => item.itemId)));
+
+    return {
+      orders: plan.suppliers.map((order) => ({
+        supplier: order.supplier,
+        deliveryFee: order.deliveryFee,
+        lines: groupLines(
+          order.items.map((item) => ({
+            itemId: item.itemId,
+            sku: item.sku || null,
+            productId: item.productId,
+            description: item.description,
+            quantity: item.quantity,
+            unit: item.unit,
+            totalPrice: item.totalPrice,
+          }))
+        ),
+      })),
+      unsourced: items
+        .filter((item) => !planned.has(item.id))
+        .map((item) => ({ itemId: item.id, description: item.description })),
+    };
+  }
+}
+
+/**
+ * Combine items ordered under the same SKU (or the same product when the
+ * supplier has no SKU for it) into one line
+ */
+function groupLines(
+  items: {
+    itemId: string;
+    sku: string | null;
+    productId: string | null;
+    description: string;
+    quantity: number;
+    unit: string;
+    totalPrice: number;
+  }[]
+): OrderLine[] {
+  const lines = new Map<string, OrderLine>();
+
+  for (const item of items) {
+    const key = item.sku || item.productId || `${item.description}|${item.unit}`;
+    const line = lines.get(key);
+
+    if (!line) {
+      lines.set(key, {
+        sku: item.sku,
+        productId: item.productId,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitPrice: 0,
+        totalPrice: item.totalPrice,
+        itemIds: [item.itemId],
+      });
+      continue;
+    }
+
+    line.quantity += item.quantity;
+    line.totalPrice = round2(line.totalPrice + item.totalPrice);
+    line.itemIds.push(item.itemId);
+  }
+
+  // Lines merged from items priced differently carry the average unit price
+  return [...lines.values()].map((line) => ({
+    ...line,
+    unitPrice: line.quantity > 0 ? round2(line.totalPrice / line.quantity) : 0,
+  }));
+}
+
+function deliveryFeeFor(config: SupplierConfiguration | undefined, subtotal: number): number {
+  if (!config?.deliveryFee) return 0;
+
+  const freeMinimum = config.freeDeliveryMinimum !== null ? Number(config.freeDeliveryMinimum) : null;
+  return freeMinimum !== null && subtotal >= freeMinimum ? 0 : Number(config.deliveryFee);
+}
+
+function formatPoNumber(job: Job, sequence: number): string {
+  return `PO-${job.jobNumber.replace(/^JOB-/, "")}-${sequence}`;
+}
+
+function poSequence(poNumber: string): number {
+  return Number(poNumber.match(/-(\d+)$/)?.[1]) || 0;
+}
+
+function formatDeliveryAddress(job: Job): string {
+  return `${job.streetAddress}, ${job.city}, ${job.state} ${job.zipCode}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const purchaseOrderBuilder = new PurchaseOrderBuilder();
@@ -0,0 +1,157 @@
+/**
+ * Background Task Handlers
+ *
+ * Maps each task type to the code that executes it.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  documentProcessor,
+  type InsuranceExtraction,
+  type ProcessingResult,
+} from "@/lib/agentcore/pipeline/document-processor";
+import { reconciliationEngine } from "@/lib/reconciliation/engine";
+import { jobLifecycle } from "@/lib/jobs/lifecycle";
+import { auditLogger } from "@/lib/audit/log";
+import type { BackgroundTask } from "@prisma/client";
+import type { TaskPayloads, TaskType } from "./task-queue";
+
+export interface TaskHandler<T extends TaskType> {
+  // Stop when the signal aborts: the worker lost the task's lease
+  run(payload: TaskPayloads[T], task: BackgroundTask, signal: AbortSignal): Promise<void>;
+  // Called once the task has exhausted its attempts
+  onDeadLetter?(payload: TaskPayloads[T], task: BackgroundTask, error: string): Promise<void>;
+}
+
+const processDocumentHandler: TaskHandler<"process_document"> = {
+  async run(payload, task, signal) {
+    const result = await documentProcessor.processDocument(payload.documentId, { signal });
+
+    if (!result.success) {
+      // Leave the document visibly queued while retries remain
+      if (task.attempts < task.maxAttempts) {
+        await prisma.document.updateMany({
+          where: { id: payload.documentId },
+          data: { processingStatus: "pending" },
+        });
+      }
+      throw new Error(result.error || "Document processing failed");
+    }
+
+    if (payload.populateJob) {
+      await populateJobFromResult(result);
+    }
+
+    await reconcileJobForDocument(result.documentId);
+  },
+
+  async onDeadLetter(payload) {
+    if (!payload.populateJob) return;
+
+    const document = await prisma.document.findUnique({
+      where: { id: payload.documentId },
+      select: { jobId: true },
+    });
+
+    if (!document) return;
+
+    // Keep the job but mark it for manual entry
+    await prisma.job.update({
+      where: { id: document.jobId },
+      data: { customerName: "Processing Failed - Manual Entry Required" },
+    });
+    await jobLifecycle.transition(document.jobId, "draft", {
+      note: "Document processing failed",
+      ifStatus: "analyzing",
+    });
+  },
+};
+
+/**
+ * Update a placeholder job with the header data extracted from its document
+ */
+async function populateJobFromResult(result: ProcessingResult): Promise<void> {
+  const document = await prisma.document.findUnique({
+    where: { id: result.documentId },
+    select: { jobId: true, job: true },
+  });
+
+  if (!document) return;
+
+  const isInsurance =
+    result.documentType === "insurance_scope" || result.documentType === "supplement";
+
+  if (!isInsurance || !result.extraction) {
+    // Mark as needing manual review
+    await prisma.job.update({
+      where: { id: document.jobId },
+      data: { customerName: "Manual Entry Required" },
+    });
+    await jobLifecycle.transition(document.jobId, "draft", {
+      note: "Document is not an insurance scope",
+      ifStatus: "analyzing",
+    });
+    return;
+  }
+
+  const extraction = result.extraction as InsuranceExtraction;
+  const headerData = extraction.headerData as Record<string, string | undefined>;
+
+  const job = await prisma.job.update({
+    where: { id: document.jobId },
+    data: {
+      customerName: headerData.customerName || "Unknown Customer",
+      customerPhone: headerData.customerPhone || null,
+      customerEmail: headerData.customerEmail || null,
+      streetAddress: headerData.streetAddress || "Address not extracted",
+      city: headerData.city || "Unknown",
+      state: headerData.state || "XX",
+      zipCode: headerData.zipCode || "00000",
+      insuranceCompany: headerData.insuranceCompany || null,
+      policyNumber: headerData.policyNumber || null,
+      claimNumber: headerData.claimNumber || null,
+      dateOfLoss: headerData.dateOfLoss ? new Date(headerData.dateOfLoss) : null,
+      totalRCV: extraction.financialSummary?.totalRCV ?? null,
+      totalACV: extraction.financialSummary?.totalACV ?? null,
+      deductible: extraction.financialSummary?.deductible ?? null,
+    },
+  });
+
+  await auditLogger.record({
+    organizationId: job.organizationId,
+    actorId: null,
+    entityType: "job",
+    entityId: job.id,
+    action: "populate",
+    before: document.job,
+    after: job,
+  });
+
+  await jobLifecycle.transition(document.jobId, "ready", {
+    note: "Scope extracted",
+    ifStatus: "analyzing",
+  });
+}
+
+/**
+ * Re-run scope/aerial reconciliation once a job has both documents. Failures
+ * are logged rather than retried - the document itself processed fine.
+ */
+async function reconcileJobForDocument(documentId: string): Promise<void> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { jobId: true },
+  });
+
+  if (!document) return;
+
+  try {
+    await reconciliationEngine.reconcileIfReady(document.jobId);
+  } catch (error) {
+    console.error("Reconciliation failed:", error);
+  }
+}
+
+export const taskHandlers: { [T in TaskType]: TaskHandler<T> } = {
+  process_document: processDocumentHandler,
+};
@@ -0,0 +1,249 @@
+/**
+ * Background Task Queue
+ *
+ * Postgres-backed work queue. Tasks are leased by workers for a window the
+ * worker keeps renewing while it runs them, retried with exponential backoff
+ * on failure, and moved to the dead-letter state once they run out of attempts.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { BackgroundTask, Prisma } from "@prisma/client";
+
+export type TaskType = "process_document";
+
+export type TaskStatus = "queued" | "leased" | "completed" | "dead";
+
+export interface ProcessDocumentPayload {
+  documentId: string;
+  // Fill in the job's customer/insurance details from the extraction
+  populateJob?: boolean;
+}
+
+export interface TaskPayloads {
+  process_document: ProcessDocumentPayload;
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface LeaseOptions {
+  limit?: number;
+  leaseMs?: number;
+  types?: TaskType[];
+}
+
+// Default lease window. Workers renew it while a task runs, so it only bounds
+// how long a crashed worker's task waits before another worker picks it up.
+export const DEFAULT_LEASE_MS = 10 * 60 * 1000;
+
+// Backoff: 30s, 1m, 2m, 4m ... capped at 30 minutes
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+export class TaskQueue {
+  /**
+   * Add a task to the queue
+   */
+  async enqueue<T extends TaskType>(
+    type: T,
+    payload: TaskPayloads[T],
+    params: {
+      organizationId: string;
+      documentId?: string;
+    } & EnqueueOptions
+  ): Promise<BackgroundTask> {
+    return prisma.backgroundTask.create({
+      data: {
+        organizationId: params.organizationId,
+        documentId: params.documentId,
+        type,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        priority: params.priority ?? 0,
+        maxAttempts: params.maxAttempts ?? 5,
+        runAt: params.runAt ?? new Date(),
+      },
+    });
+  }
+
+  /**
+   * Queue a document for processing, reusing an outstanding task if one exists
+   */
+  async enqueueDocumentProcessing(
+    document: { id: string; organizationId: string },
+    options: Omit<ProcessDocumentPayload, "documentId"> & EnqueueOptions = {}
+  ): Promise<BackgroundTask> {
+    const { populateJob, ...enqueueOptions } = options;
+
+    const existing = await prisma.backgroundTask.findFirst({
+      where: {
+        documentId: document.id,
+        type: "process_document",
+        status: { in: ["queued", "leased"] },
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return this.enqueue(
+      "process_document",
+      { documentId: document.id, populateJob },
+      {
+        organizationId: document.organizationId,
+        documentId: document.id,
+        ...enqueueOptions,
+      }
+    );
+  }
+
+  /**
+   * Lease tasks that are due, including tasks whose previous lease expired.
+   * Each claim is a conditional update, so concurrent workers never share a task.
+   * Tasks whose workers crashed too many times come back with attempts past
+   * maxAttempts; the worker dead-letters those instead of running them.
+   */
+  async lease(workerId: string, options: LeaseOptions = {}): Promise<BackgroundTask[]> {
+    const { limit = 1, leaseMs = DEFAULT_LEASE_MS, types } = options;
+    const now = new Date();
+
+    const available: Prisma.BackgroundTaskWhereInput = {
+      ...(types ? { type: { in: types } } : {}),
+      OR: [
+        { status: "queued", runAt: { lte: now } },
+        { status: "leased", leaseExpiresAt: { lt: now } },
+      ],
+    };
+
+    const candidates = await prisma.backgroundTask.findMany({
+      where: available,
+      orderBy: [{ priority: "desc" }, { runAt: "asc" }],
+      take: limit * 2,
+      select: { id: true },
+    });
+
+    const leased: BackgroundTask[] = [];
+
+    for (const candidate of candidates) {
+      if (leased.length >= limit) break;
+
+      const claimed = await prisma.backgroundTask.updateMany({
+        where: { id: candidate.id, ...available },
+        data: {
+          status: "leased",
+          leasedBy: workerId,
+          leaseExpiresAt: new Date(Date.now() + leaseMs),
+          attempts: { increment: 1 },
+        },
+      });
+
+      if (claimed.count === 0) continue;
+
+      const task = await prisma.backgroundTask.findUnique({
+        where: { id: candidate.id },
+      });
+
+      if (task) {
+        leased.push(task);
+      }
+    }
+
+    return leased;
+  }
+
+  /**
+   * Extend the lease on a long-running task. False if the worker no longer
+   * holds it.
+   */
+  async extendLease(
+    taskId: string,
+    workerId: string,
+    leaseMs: number = DEFAULT_LEASE_MS
+  ): Promise<boolean> {
+    const result = await prisma.backgroundTask.updateMany({
+      where: { id: taskId, status: "leased", leasedBy: workerId },
+      data: { leaseExpiresAt: new Date(Date.now() + leaseMs) },
+    });
+
+    return result.count === 1;
+  }
+
+  /**
+   * Mark a leased task as completed
+   */
+  async complete(taskId: string, workerId: string): Promise<void> {
+    await prisma.backgroundTask.updateMany({
+      where: { id: taskId, status: "leased", leasedBy: workerId },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: null,
+      },
+    });
+  }
+
+  /**
+   * Record a failed attempt. Returns the resulting status: "queued" when the task
+   * will be retried, "dead" when it has exhausted its attempts.
+   */
+  async fail(
+    task: BackgroundTask,
+    workerId: string,
+    errorMessage: string
+  ): Promise<TaskStatus> {
+    if (task.attempts >= task.maxAttempts) {
+      await this.deadLetter(task, errorMessage, workerId);
+      return "dead";
+    }
+
+    await prisma.backgroundTask.updateMany({
+      where: { id: task.id, status: "leased", leasedBy: workerId },
+      data: {
+        status: "queued",
+        runAt: new Date(Date.now() + getBackoffDelay(task.attempts)),
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: errorMessage,
+      },
+    });
+
+    return "queued";
+  }
+
+  /**
+   * Move a task to the dead-letter state
+   */
+  private async deadLetter(
+    task: BackgroundTask,
+    errorMessage: string,
+    workerId?: string
+  ): Promise<void> {
+    await prisma.backgroundTask.updateMany({
+      where: { id: task.id, status: "leased", ...(workerId ? { leasedBy: workerId } : {}) },
+      data: {
+        status: "dead",
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: errorMessage,
+      },
+    });
+  }
+}
+
+/**
+ * Exponential backoff with jitter for the given attempt number (1-based)
+ */
+export function getBackoffDelay(attempt: number): number {
+  const exponential = BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(exponential, BACKOFF_MAX_MS);
+  const jitter = Math.random() * 0.2 * capped;
+  return Math.round(capped + jitter);
+}
+
+// Export singleton instance
+export const taskQueue = new TaskQueue();
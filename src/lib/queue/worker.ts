@@ -0,0 +1,195 @@
+/**
+ * Background Task Worker
+ *
+ * Leases tasks from the queue and dispatches them to their handlers, renewing
+ * the leases until each task finishes. A task whose lease can't be renewed is
+ * stopped, since another worker may already be running it.
+ * Used both by the long-running worker process and the cron-triggered API route.
+ */
+
+import os from "os";
+import { v4 as uuidv4 } from "uuid";
+import type { BackgroundTask } from "@prisma/client";
+import { DEFAULT_LEASE_MS, taskQueue, type TaskPayloads, type TaskType } from "./task-queue";
+import { taskHandlers, type TaskHandler } from "./handlers";
+
+export interface WorkerOptions {
+  workerId?: string;
+  batchSize?: number;
+  pollIntervalMs?: number;
+  leaseMs?: number;
+  types?: TaskType[];
+}
+
+export interface WorkerRunSummary {
+  leased: number;
+  completed: number;
+  retried: number;
+  dead: number;
+  lost: number; // Stopped because the lease could not be renewed
+}
+
+type TaskOutcome = Exclude<keyof WorkerRunSummary, "leased">;
+
+export class TaskWorker {
+  readonly workerId: string;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly leaseMs: number;
+  private readonly types?: TaskType[];
+  private running = false;
+
+  constructor(options: WorkerOptions = {}) {
+    this.workerId = options.workerId || `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+    this.batchSize = options.batchSize ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.types = options.types;
+  }
+
+  /**
+   * Lease and run a single batch of tasks
+   */
+  async runOnce(): Promise<WorkerRunSummary> {
+    const tasks = await taskQueue.lease(this.workerId, {
+      limit: this.batchSize,
+      leaseMs: this.leaseMs,
+      types: this.types,
+    });
+
+    const summary: WorkerRunSummary = { leased: tasks.length, completed: 0, retried: 0, dead: 0, lost: 0 };
+
+    // Tasks waiting their turn in the batch keep their leases too
+    const leases = new Map(tasks.map((task) => [task.id, new AbortController()]));
+    const renewal = setInterval(() => void this.renewLeases(leases), this.leaseMs / 3);
+
+    try {
+      for (const task of tasks) {
+        const lease = leases.get(task.id)!;
+        const outcome = lease.signal.aborted ? "lost" : await this.runTask(task, lease.signal);
+        leases.delete(task.id);
+        summary[outcome]++;
+      }
+    } finally {
+      clearInterval(renewal);
+    }
+
+    return summary;
+  }
+
+  /**
+   * Poll the queue until stop() is called
+   */
+  async start(): Promise<void> {
+    this.running = true;
+
+    while (this.running) {
+      let summary: WorkerRunSummary | null = null;
+
+      try {
+        summary = await this.runOnce();
+      } catch (error) {
+        console.error("Task worker poll failed:", error);
+      }
+
+      // Keep draining while there is work; otherwise wait before polling again
+      if (this.running && (!summary || summary.leased === 0)) {
+        await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+      }
+    }
+  }
+
+  /**
+   * Stop polling after the current batch finishes
+   */
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Execute one leased task and record the outcome
+   */
+  private async runTask(task: BackgroundTask, signal: AbortSignal): Promise<TaskOutcome> {
+    const type = task.type as TaskType;
+    const handler = taskHandlers[type] as TaskHandler<TaskType> | undefined;
+    const payload = task.payload as unknown as TaskPayloads[TaskType];
+
+    if (!handler) {
+      await taskQueue.fail(
+        { ...task, attempts: task.maxAttempts },
+        this.workerId,
+        `No handler registered for task type "${task.type}"`
+      );
+      return "dead";
+    }
+
+    // A worker crashed mid-task too many times - stop running it
+    if (task.attempts > task.maxAttempts) {
+      const errorMessage = task.lastError || "Lease expired too many times";
+      await taskQueue.fail(task, this.workerId, errorMessage);
+      await this.runDeadLetterHook(handler, payload, task, errorMessage);
+      return "dead";
+    }
+
+    try {
+      await handler.run(payload, task, signal);
+      if (signal.aborted) return "lost";
+
+      await taskQueue.complete(task.id, this.workerId);
+      return "completed";
+    } catch (error) {
+      // Another worker owns the task now; leave its status alone
+      if (signal.aborted) {
+        console.error(`Task ${task.id} (${task.type}) stopped:`, signal.reason);
+        return "lost";
+      }
+
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Task ${task.id} (${task.type}) attempt ${task.attempts} failed:`, errorMessage);
+
+      const status = await taskQueue.fail(task, this.workerId, errorMessage);
+
+      if (status === "dead") {
+        await this.runDeadLetterHook(handler, payload, task, errorMessage);
+        return "dead";
+      }
+
+      return "retried";
+    }
+  }
+
+  /**
+   * Renew the leases of the batch's unfinished tasks, stopping any task whose
+   * lease can't be renewed
+   */
+  private async renewLeases(leases: Map<string, AbortController>): Promise<void> {
+    for (const [taskId, lease] of leases) {
+      if (lease.signal.aborted) continue;
+
+      try {
+        const held = await taskQueue.extendLease(taskId, this.workerId, this.leaseMs);
+        if (!held) {
+          lease.abort(new Error("Task lease was lost to another worker"));
+        }
+      } catch (error) {
+        lease.abort(error);
+      }
+    }
+  }
+
+  /**
+   * Let the handler clean up after a task that will never run again
+   */
+  private async runDeadLetterHook(
+    handler: TaskHandler<TaskType>,
+    payload: TaskPayloads[TaskType],
+    task: BackgroundTask,
+    errorMessage: string
+  ): Promise<void> {
+    try {
+      await handler.onDeadLetter?.(payload, task, errorMessage);
+    } catch (hookError) {
+      console.error(`Dead-letter hook for task ${task.id} failed:`, hookError);
+    }
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Reconciliation Engine
+ *
+ * Compares a job's insurance scope against its aerial report and records every
+ * discrepancy with its dollar impact, so short measurements and missing items
+ * can be supplemented.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  getMinimumPipeJacks,
+  validateAgainstAerial,
+  type PipeJackResult,
+} from "@/lib/agentcore/tools/pipe-jack-extractor";
+import { assessVentilationAdequacy, type VentResult } from "@/lib/agentcore/tools/vent-extractor";
+import { getWasteFactor, isRemovalLine, normalizeStructures } from "@/lib/roofing/roof";
+import type { AerialReport, Discrepancy, InsuranceAnalysis, LineItem } from "@prisma/client";
+
+export type DiscrepancyType = "measurement" | "pipe_jacks" | "ventilation";
+
+export type DiscrepancyField =
+  | "area"
+  | "ridge"
+  | "hip"
+  | "valley"
+  | "eave"
+  | "rake"
+  | "step_flashing"
+  | "headwall"
+  | "pipe_jacks"
+  | "ridge_vent"
+  | "turtle_vent";
+
+export interface DiscrepancyDraft {
+  type: DiscrepancyType;
+  field: DiscrepancyField;
+  description: string;
+  scopeValue: number | null;
+  aerialValue: number | null;
+  difference: number | null;
+  unit: string;
+  unitPrice: number;
+  priceSource: "scope" | "default";
+  dollarImpact: number;
+  severity: "low" | "medium" | "high";
+}
+
+export interface ReconciliationResult {
+  jobId: string;
+  insuranceAnalysisId: string;
+  aerialReportId: string;
+  discrepancies: Discrepancy[];
+  totalDollarImpact: number;
+}
+
+type ScopeMeasurements = {
+  totalArea?: number;
+  ridge?: number;
+  hip?: number;
+  valley?: number;
+  eave?: number;
+  rake?: number;
+};
+
+interface MeasurementCheck {
+  field: DiscrepancyField;
+  label: string;
+  unit: "SQ" | "LF";
+  scopeKey?: keyof ScopeMeasurements;
+  aerialKey: keyof Pick<
+    AerialReport,
+    "ridgeLength" | "hipLength" | "valleyLength" | "eaveLength" | "rakeLength" | "stepFlashing" | "headwall"
+  > | "totalArea";
+  // Scope line items that carry this measurement when the header doesn't
+  scopeLinePattern?: RegExp;
+  // Scope line items whose unit price values this measurement
+  pricePattern: RegExp;
+  defaultUnitPrice: number;
+}
+
+const MEASUREMENT_CHECKS: MeasurementCheck[] = [
+  {
+    field: "area",
+    label: "Roof area (with waste)",
+    unit: "SQ",
+    scopeKey: "totalArea",
+    aerialKey: "totalArea",
+    scopeLinePattern: /shingle|laminated|comp(?:osition)?\.?\s*roof/i,
+    pricePattern: /shingle|laminated|comp(?:osition)?\.?\s*roof/i,
+    defaultUnitPrice: 250,
+  },
+  {
+    field: "ridge",
+    label: "Ridge",
+    unit: "LF",
+    scopeKey: "ridge",
+    aerialKey: "ridgeLength",
+    pricePattern: /ridge\s*cap|hip\s*(?:\/|&|and)\s*ridge/i,
+    defaultUnitPrice: 9,
+  },
+  {
+    field: "hip",
+    label: "Hip",
+    unit: "LF",
+    scopeKey: "hip",
+    aerialKey: "hipLength",
+    pricePattern: /hip\s*(?:\/|&|and)\s*ridge|ridge\s*cap/i,
+    defaultUnitPrice: 9,
+  },
+  {
+    field: "valley",
+    label: "Valley",
+    unit: "LF",
+    scopeKey: "valley",
+    aerialKey: "valleyLength",
+    pricePattern: /valley/i,
+    defaultUnitPrice: 7,
+  },
+  {
+    field: "eave",
+    label: "Eave",
+    unit: "LF",
+    scopeKey: "eave",
+    aerialKey: "eaveLength",
+    pricePattern: /drip\s*edge/i,
+    defaultUnitPrice: 3.5,
+  },
+  {
+    field: "rake",
+    label: "Rake",
+    unit: "LF",
+    scopeKey: "rake",
+    aerialKey: "rakeLength",
+    pricePattern: /drip\s*edge/i,
+    defaultUnitPrice: 3.5,
+  },
+  {
+    field: "step_flashing",
+    label: "Step flashing",
+    unit: "LF",
+    aerialKey: "stepFlashing",
+    scopeLinePattern: /step\s*flash/i,
+    pricePattern: /step\s*flash/i,
+    defaultUnitPrice: 12,
+  },
+  {
+    field: "headwall",
+    label: "Headwall flashing",
+    unit: "LF",
+    aerialKey: "headwall",
+    scopeLinePattern: /head\s*wall|counter\s*flash|apron\s*flash/i,
+    pricePattern: /head\s*wall|counter\s*flash|apron\s*flash/i,
+    defaultUnitPrice: 9,
+  },
+];
+
+const PIPE_JACK_PRICE = { pattern: /pipe\s*(?:jack|boot|collar)|flashing\s*-\s*pipe/i, default: 55 };
+const RIDGE_VENT_PRICE = { pattern: /ridge\s*vent/i, default: 10 };
+const TURTLE_VENT_PRICE = { pattern: /turtle|box\s*vent|roof\s*vent|static\s*vent/i, default: 70 };
+
+// Differences smaller than both tolerances are measurement noise; exceeding
+// either one makes them a discrepancy
+const TOLERANCE = {
+  SQ: { absolute: 1, percent: 0.03 },
+  LF: { absolute: 5, percent: 0.05 },
+};
+
+export class ReconciliationEngine {
+  /**
+   * Reconcile a job's latest insurance analysis against its latest aerial
+   * report, replacing any previous discrepancy list
+   */
+  async reconcileJob(jobId: string): Promise<ReconciliationResult> {
+    const [analysis, aerial, lineItems] = await Promise.all([
+      prisma.insuranceAnalysis.findFirst({
+        where: { jobId },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.aerialReport.findFirst({
+        where: { jobId },
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.lineItem.findMany({
+        where: { jobId, source: "insurance" },
+      }),
+    ]);
+
+    if (!analysis || !aerial) {
+      throw new Error("Job needs an insurance analysis and an aerial report to reconcile");
+    }
+
+    const drafts = this.compare(analysis, aerial, lineItems);
+
+    // Keep reviewer decisions for discrepancies that are found again
+    const previous = await prisma.discrepancy.findMany({
+      where: { jobId },
+      select: { field: true, status: true },
+    });
+    const previousStatus = new Map(previous.map((d) => [d.field, d.status]));
+
+    const discrepancies = await prisma.$transaction(async (tx) => {
+      await tx.discrepancy.deleteMany({ where: { jobId } });
+
+      return Promise.all(
+        drafts.map((draft) =>
+          tx.discrepancy.create({
+            data: {
+              ...draft,
+              jobId,
+              insuranceAnalysisId: analysis.id,
+              aerialReportId: aerial.id,
+              status: previousStatus.get(draft.field) || "open",
+            },
+          })
+        )
+      );
+    });
+
+    return {
+      jobId,
+      insuranceAnalysisId: analysis.id,
+      aerialReportId: aerial.id,
+      discrepancies,
+      totalDollarImpact: round2(drafts.reduce((sum, d) => sum + d.dollarImpact, 0)),
+    };
+  }
+
+  /**
+   * Reconcile only if the job has both documents analyzed
+   */
+  async reconcileIfReady(jobId: string): Promise<ReconciliationResult | null> {
+    const [analyses, aerials] = await Promise.all([
+      prisma.insuranceAnalysis.count({ where: { jobId } }),
+      prisma.aerialReport.count({ where: { jobId } }),
+    ]);
+
+    if (analyses === 0 || aerials === 0) {
+      return null;
+    }
+
+    return this.reconcileJob(jobId);
+  }
+
+  /**
+   * Compare scope and aerial data without persisting anything
+   */
+  compare(
+    analysis: InsuranceAnalysis,
+    aerial: AerialReport,
+    lineItems: LineItem[]
+  ): DiscrepancyDraft[] {
+    const scopeLines = lineItems.filter((item) => !isRemovalLine(item.description));
+    const discrepancies: DiscrepancyDraft[] = [];
+
+    for (const check of MEASUREMENT_CHECKS) {
+      const discrepancy = this.compareMeasurement(check, analysis, aerial, scopeLines);
+      if (discrepancy) discrepancies.push(discrepancy);
+    }
+
+    const pipeJacks = this.comparePipeJacks(analysis, aerial, scopeLines);
+    if (pipeJacks) discrepancies.push(pipeJacks);
+
+    const ventilation = this.compareVentilation(analysis, aerial, scopeLines);
+    if (ventilation) discrepancies.push(ventilation);
+
+    return discrepancies.sort((a, b) => Math.abs(b.dollarImpact) - Math.abs(a.dollarImpact));
+  }
+
+  /**
+   * Compare one roof measurement
+   */
+  private compareMeasurement(
+    check: MeasurementCheck,
+    analysis: InsuranceAnalysis,
+    aerial: AerialReport,
+    scopeLines: LineItem[]
+  ): DiscrepancyDraft | null {
+    const aerialValue = this.getAerialValue(check, aerial);
+    if (aerialValue === null) return null;
+
+    const scopeValue = this.getScopeValue(check, analysis, scopeLines);
+    if (scopeValue === null) return null;
+
+    const difference = round2(aerialValue - scopeValue);
+    const tolerance = TOLERANCE[check.unit];
+    if (
+      Math.abs(difference) <= tolerance.absolute &&
+      Math.abs(difference) <= aerialValue * tolerance.percent
+    ) {
+      return null;
+    }
+
+    const price = findUnitPrice(scopeLines, check.pricePattern, check.unit, check.defaultUnitPrice);
+    const dollarImpact = round2(difference * price.unitPrice);
+
+    const description =
+      scopeValue === 0
+        ? `${check.label} missing from scope - aerial report shows ${aerialValue} ${check.unit}`
+        : `${check.label}: scope has ${scopeValue} ${check.unit}, aerial report shows ${aerialValue} ${check.unit}`;
+
+    return {
+      type: "measurement",
+      field: check.field,
+      description,
+      scopeValue,
+      aerialValue,
+      difference,
+      unit: check.unit,
+      ...price,
+      dollarImpact,
+      severity: getSeverity(dollarImpact),
+    };
+  }
+
+  /**
+   * Aerial value for a measurement. Area is converted to squares with waste.
+   */
+  private getAerialValue(check: MeasurementCheck, aerial: AerialReport): number | null {
+    const value = aerial[check.aerialKey];
+    if (value === null || value === undefined || value <= 0) return null;
+
+    if (check.field === "area") {
+      return round2((value / 100) * (1 + getWasteFactor(aerial)));
+    }
+
+    return round2(value);
+  }
+
+  /**
+   * Scope value for a measurement: the quantity on matching scope line items,
+   * then the measurement extracted from the scope header
+   */
+  private getScopeValue(
+    check: MeasurementCheck,
+    analysis: InsuranceAnalysis,
+    scopeLines: LineItem[]
+  ): number | null {
+    if (check.scopeLinePattern) {
+      const matching = scopeLines.filter(
+        (item) => check.scopeLinePattern!.test(item.description) && item.unit.toUpperCase() === check.unit
+      );
+      if (matching.length > 0) {
+        return round2(matching.reduce((sum, item) => sum + Number(item.quantity), 0));
+      }
+    }
+
+    const measurements = (analysis.roofMeasurements || {}) as ScopeMeasurements;
+    const headerValue = check.scopeKey ? measurements[check.scopeKey] : undefined;
+    if (typeof headerValue === "number") {
+      return round2(headerValue);
+    }
+
+    // Flashing is only ever scoped as line items, so no line means none was paid
+    return check.scopeKey ? null : 0;
+  }
+
+  /**
+   * Check the scoped pipe jack count against the aerial report's structures
+   */
+  private comparePipeJacks(
+    analysis: InsuranceAnalysis,
+    aerial: AerialReport,
+    scopeLines: LineItem[]
+  ): DiscrepancyDraft | null {
+    const extracted = analysis.pipeJacks as unknown as PipeJackResult | null;
+    if (!extracted || typeof extracted.totalCount !== "number") return null;
+
+    const structures = normalizeStructures(aerial.structures);
+    if (structures.length === 0) return null;
+
+    const validated = validateAgainstAerial(
+      { ...extracted, validationNotes: [...(extracted.validationNotes || [])] },
+      { roofArea: aerial.totalArea || 0, structures }
+    );
+
+    const notes = validated.validationNotes.slice(extracted.validationNotes?.length || 0);
+    if (notes.length === 0) return null;
+
+    const minExpected = getMinimumPipeJacks(structures.length);
+    const difference = minExpected - extracted.totalCount;
+    const price = findUnitPrice(scopeLines, PIPE_JACK_PRICE.pattern, "EA", PIPE_JACK_PRICE.default);
+    const dollarImpact = round2(difference * price.unitPrice);
+
+    return {
+      type: "pipe_jacks",
+      field: "pipe_jacks",
+      description: notes.join("; "),
+      scopeValue: extracted.totalCount,
+      aerialValue: minExpected,
+      difference,
+      unit: "EA",
+      ...price,
+      dollarImpact,
+      severity: getSeverity(dollarImpact),
+    };
+  }
+
+  /**
+   * Check scoped ventilation against what the aerial roof area requires,
+   * pricing the cheapest addition that fits the roof
+   */
+  private compareVentilation(
+    analysis: InsuranceAnalysis,
+    aerial: AerialReport,
+    scopeLines: LineItem[]
+  ): DiscrepancyDraft | null {
+    const ventilation = analysis.ventilation as unknown as VentResult | null;
+    if (!ventilation || typeof ventilation.nfa !== "number" || !aerial.totalArea) return null;
+
+    const assessment = assessVentilationAdequacy(ventilation, aerial.totalArea);
+    if (assessment.isAdequate || !assessment.suggestedAdditions) return null;
+
+    const ridgeVent = assessment.suggestedAdditions.find((s) => s.type === "vsRidgeVent");
+    const turtleVent = assessment.suggestedAdditions.find((s) => s.type === "vsTurtleVent");
+
+    // Ridge vent is preferred, but only fits if there's enough ridge to cut in
+    const useRidgeVent =
+      !!ridgeVent && (aerial.ridgeLength || 0) - (ventilation.vsRidgeVent || 0) >= ridgeVent.quantity;
+    const addition = useRidgeVent ? ridgeVent : turtleVent;
+    if (!addition) return null;
+
+    const current = useRidgeVent ? ventilation.vsRidgeVent || 0 : ventilation.vsTurtleVent || 0;
+    const unit = useRidgeVent ? "LF" : "EA";
+    const priceConfig = useRidgeVent ? RIDGE_VENT_PRICE : TURTLE_VENT_PRICE;
+    const price = findUnitPrice(scopeLines, priceConfig.pattern, unit, priceConfig.default);
+    const dollarImpact = round2(addition.quantity * price.unitPrice);
+
+    return {
+      type: "ventilation",
+      field: useRidgeVent ? "ridge_vent" : "turtle_vent",
+      description: `${assessment.recommendation} - add ${addition.quantity} ${unit} of ${useRidgeVent ? "ridge vent" : "turtle vents"}`,
+      scopeValue: current,
+      aerialValue: current + addition.quantity,
+      difference: addition.quantity,
+      unit,
+      ...price,
+      dollarImpact,
+      severity: getSeverity(dollarImpact),
+    };
+  }
+}
+
+/**
+ * Unit price for a measurement: the quantity-weighted scope price of matching
+ * line items, or a default when the scope has none
+ */
+export function findUnitPrice(
+  scopeLines: LineItem[],
+  pattern: RegExp,
+  unit: string,
+  defaultUnitPrice: number
+): { unitPrice: number; priceSource: "scope" | "default" } {
+  const matching = scopeLines.filter(
+    (item) => pattern.test(item.description) && item.unit.toUpperCase() === unit && item.unitPrice
+  );
+
+  const quantity = matching.reduce((sum, item) => sum + Number(item.quantity), 0);
+  if (quantity > 0) {
+    const total = matching.reduce(
+      (sum, item) => sum + Number(item.quantity) * Number(item.unitPrice),
+      0
+    );
+    return { unitPrice: round2(total / quantity), priceSource: "scope" };
+  }
+
+  return { unitPrice: defaultUnitPrice, priceSource: "default" };
+}
+
+function getSeverity(dollarImpact: number): DiscrepancyDraft["severity"] {
+  const amount = Math.abs(dollarImpact);
+  if (amount >= 1000) return "high";
+  if (amount >= 250) return "medium";
+  return "low";
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const reconciliationEngine = new ReconciliationEngine();
@@ -0,0 +1,70 @@
+/**
+ * Roof Helpers
+ *
+ * Small roofing rules shared by pricing, reconciliation, supplements and
+ * takeoffs: reading pitches, waste factors and structures off an aerial
+ * report, spotting removal lines, and where codes call for an ice barrier.
+ * Kept free of database and PDF dependencies so any layer can use them.
+ */
+
+import type { AerialReport } from "@prisma/client";
+
+// States where local codes commonly require an ice barrier (IRC R905.1.2)
+export const ICE_BARRIER_STATES = new Set([
+  "AK", "CO", "CT", "IA", "ID", "IL", "IN", "MA", "ME", "MI", "MN", "MT", "ND", "NE",
+  "NH", "NJ", "NY", "OH", "PA", "RI", "SD", "UT", "VT", "WI", "WY",
+]);
+
+// Suggested waste by roof complexity when the aerial report doesn't give one
+const WASTE_BY_COMPLEXITY: Record<string, number> = {
+  simple: 0.1,
+  moderate: 0.12,
+  complex: 0.15,
+  very_complex: 0.18,
+};
+
+/**
+ * Rise from a pitch written as "8:12", "8/12" or "8"
+ */
+export function parsePitch(pitch: string): number | null {
+  const match = String(pitch).match(/(\d+(?:\.\d+)?)/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Waste factor as a fraction, from the aerial report or its complexity
+ */
+export function getWasteFactor(aerial: Pick<AerialReport, "wasteFactorSuggested" | "roofComplexity">): number {
+  if (aerial.wasteFactorSuggested) {
+    // Reports give waste either as a fraction or a percentage
+    return aerial.wasteFactorSuggested > 1
+      ? aerial.wasteFactorSuggested / 100
+      : aerial.wasteFactorSuggested;
+  }
+
+  return WASTE_BY_COMPLEXITY[aerial.roofComplexity || ""] ?? 0.1;
+}
+
+/**
+ * Structures are stored as a list or as a map keyed by structure name
+ */
+export function normalizeStructures(structures: unknown): { name: string; area: number }[] {
+  if (Array.isArray(structures)) {
+    return structures as { name: string; area: number }[];
+  }
+
+  if (structures && typeof structures === "object") {
+    return Object.entries(structures as Record<string, { area?: number }>).map(
+      ([name, value]) => ({ name, area: value?.area || 0 })
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Whether a scope line removes material rather than installing it
+ */
+export function isRemovalLine(description: string): boolean {
+  return /^\s*(?:remove|tear\s*off)\b/i.test(description);
+}
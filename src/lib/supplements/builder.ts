@@ -0,0 +1,450 @@
+/**
+ * Supplement Builder
+ *
+ * Drafts a carrier supplement from what the adjuster missed: open scope/aerial
+ * discrepancies plus code and manufacturer requirements the scope leaves out
+ * (drip edge, starter, ice & water, steep and high roof charges). Every item
+ * carries its justification and the running RCV after it is added.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { findUnitPrice, reconciliationEngine } from "@/lib/reconciliation/engine";
+import { ICE_BARRIER_STATES, isRemovalLine, parsePitch } from "@/lib/roofing/roof";
+import { uploadToS3, generateDocumentKey } from "@/lib/s3/client";
+import { loadBranding } from "@/lib/pdf/branding";
+import { renderSupplementPdf } from "./pdf";
+import type { AerialReport, Discrepancy, Job, LineItem, Supplement } from "@prisma/client";
+
+export interface SupplementItem {
+  code: string; // Stable key so later supplements don't re-claim the same quantity
+  description: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  overheadProfit: number;
+  rcv: number;
+  runningRCV: number;
+  justification: string;
+  source: "reconciliation" | "code";
+  discrepancyId?: string;
+}
+
+export interface SupplementOptions {
+  stories?: number; // Stories to the eave; 2+ adds high roof charges
+}
+
+export interface SupplementInput {
+  job: Job;
+  aerial: AerialReport | null;
+  lineItems: LineItem[];
+  discrepancies: Discrepancy[];
+  previousSupplements: Supplement[];
+  options: SupplementOptions;
+}
+
+type ProposedItem = Omit<SupplementItem, "overheadProfit" | "rcv" | "runningRCV">;
+
+export const SUPPLEMENT_STATUSES = ["draft", "sent", "approved", "partially_approved", "denied"] as const;
+
+export type SupplementStatus = (typeof SUPPLEMENT_STATUSES)[number];
+
+// Allowed moves from each status. The carrier's answer is final, except that
+// a partial approval can be raised to a full one on appeal.
+export const SUPPLEMENT_TRANSITIONS: Record<SupplementStatus, SupplementStatus[]> = {
+  draft: ["sent"],
+  sent: ["approved", "partially_approved", "denied"],
+  partially_approved: ["approved"],
+  approved: [],
+  denied: [],
+};
+
+// Discrepancies that become supplement items. Eave and rake are covered by
+// the drip edge and starter rules instead.
+const DISCREPANCY_ITEMS: Record<string, { description: string; justification: string }> = {
+  area: {
+    description: "Laminated - comp. shingle rfg. - additional squares",
+    justification:
+      "Shingle quantity must cover the measured roof area plus standard waste for cuts at hips, valleys and rakes.",
+  },
+  ridge: {
+    description: "Hip / Ridge cap - composition shingles - additional",
+    justification: "Ridge cap is required along the full measured ridge length.",
+  },
+  hip: {
+    description: "Hip / Ridge cap - composition shingles - additional (hips)",
+    justification: "Hip cap is required along the full measured hip length.",
+  },
+  valley: {
+    description: "Valley metal - additional",
+    justification: "IRC R905.2.8.2 requires valley linings along the full length of every valley.",
+  },
+  step_flashing: {
+    description: "Step flashing",
+    justification: "IRC R905.2.8.3 requires step flashing where the roof meets a sidewall.",
+  },
+  headwall: {
+    description: "Counterflashing - apron flashing",
+    justification: "IRC R903.2.1 requires flashing where the roof meets a headwall.",
+  },
+  pipe_jacks: {
+    description: "Flashing - pipe jack",
+    justification: "Every plumbing vent penetration requires its own pipe flashing.",
+  },
+  ridge_vent: {
+    description: "Continuous ridge vent - shingle-over style",
+    justification:
+      "IRC R806.2 requires net free ventilating area of at least 1/150 of the vented attic area (1/300 with balanced intake and exhaust).",
+  },
+  turtle_vent: {
+    description: "Roof vent - turtle type - Metal",
+    justification:
+      "IRC R806.2 requires net free ventilating area of at least 1/150 of the vented attic area (1/300 with balanced intake and exhaust).",
+  },
+};
+
+// Ice barrier width in SF per LF: two 3' courses at eaves, 3' each side of valleys
+const ICE_BARRIER_SF_PER_EAVE_LF = 6;
+const ICE_BARRIER_SF_PER_VALLEY_LF = 6;
+
+const STEEP_BANDS = [
+  { code: "steep_7_9", min: 7, max: 9, label: "7/12 - 9/12", pattern: /7\/12\s*-\s*9\/12/i, price: 45 },
+  { code: "steep_10_12", min: 10, max: 12, label: "10/12 - 12/12", pattern: /10\/12\s*-\s*12\/12/i, price: 70 },
+  { code: "steep_13_plus", min: 13, max: Infinity, label: "greater than 12/12", pattern: /greater\s*than\s*12\/12|>\s*12\/12/i, price: 95 },
+];
+
+const DEFAULT_PRICES = {
+  dripEdge: 3.5,
+  starter: 2.25,
+  iceWater: 2.1,
+  highRoof: 25,
+};
+
+// Below these quantities an item isn't worth the adjuster's attention
+const MINIMUM_QUANTITY: Record<string, number> = { SQ: 0.5, LF: 5, SF: 25, EA: 1 };
+
+export class SupplementBuilder {
+  /**
+   * Build, store and render the next supplement for a job
+   */
+  async buildSupplement(
+    jobId: string,
+    options: SupplementOptions = {}
+  ): Promise<Supplement> {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      include: {
+        aerialReports: { orderBy: { createdAt: "desc" }, take: 1 },
+        lineItems: { where: { source: "insurance" } },
+        supplements: { orderBy: { supplementNumber: "asc" } },
+      },
+    });
+
+    if (!job) {
+      throw new Error("Job not found");
+    }
+
+    // Make sure discrepancies reflect the latest documents
+    await reconciliationEngine.reconcileIfReady(jobId);
+
+    const discrepancies = await prisma.discrepancy.findMany({
+      where: { jobId, status: { not: "dismissed" } },
+    });
+
+    const input: SupplementInput = {
+      job,
+      aerial: job.aerialReports[0] || null,
+      lineItems: job.lineItems,
+      discrepancies,
+      previousSupplements: job.supplements,
+      options,
+    };
+
+    const originalRCV = round2(
+      (Number(job.totalRCV) || 0) +
+        job.supplements
+          .filter((s) => s.status !== "denied")
+          .reduce((sum, s) => sum + Number(s.rcvDelta), 0)
+    );
+
+    const items = this.priceItems(this.proposeItems(input), job.lineItems, originalRCV);
+
+    if (items.length === 0) {
+      throw new Error("No supplement items found for this job");
+    }
+
+    const rcvDelta = round2(items.reduce((sum, item) => sum + item.rcv, 0));
+    const summary = {
+      supplementNumber: (job.supplements.at(-1)?.supplementNumber || 0) + 1,
+      createdAt: new Date(),
+      originalRCV,
+      rcvDelta,
+      revisedRCV: round2(originalRCV + rcvDelta),
+    };
+
+    // Upload the PDF first, so a failed render or upload leaves no
+    // supplement behind and its discrepancies still open
+    const pdf = await renderSupplementPdf({
+      branding: await loadBranding(job.organizationId),
+      job,
+      supplement: summary,
+      items,
+    });
+
+    const key = generateDocumentKey(
+      job.organizationId,
+      jobId,
+      "supplement",
+      `supplement-${job.jobNumber}-${summary.supplementNumber}.pdf`
+    );
+    await uploadToS3(pdf, key, "application/pdf");
+
+    // Discrepancies now claimed on a supplement
+    const claimed = items
+      .map((item) => item.discrepancyId)
+      .filter((id): id is string => !!id);
+
+    return prisma.$transaction(async (tx) => {
+      const supplement = await tx.supplement.create({
+        data: { jobId, ...summary, items: items as object, pdfS3Key: key },
+      });
+
+      if (claimed.length > 0) {
+        await tx.discrepancy.updateMany({
+          where: { id: { in: claimed } },
+          data: { status: "supplemented" },
+        });
+      }
+
+      return supplement;
+    });
+  }
+
+  /**
+   * Propose items and quantities, net of what earlier supplements already claimed
+   */
+  proposeItems(input: SupplementInput): ProposedItem[] {
+    const scopeLines = input.lineItems.filter((item) => !isRemovalLine(item.description));
+    const alreadyClaimed = claimedQuantities(input.previousSupplements);
+
+    const proposed: ProposedItem[] = [
+      ...this.fromDiscrepancies(input.discrepancies),
+      ...this.codeItems(input, scopeLines),
+    ];
+
+    return proposed
+      .map((item) => ({
+        ...item,
+        quantity: roundQuantity(item.quantity - (alreadyClaimed.get(item.code) || 0), item.unit),
+      }))
+      .filter((item) => item.quantity >= (MINIMUM_QUANTITY[item.unit] ?? 1));
+  }
+
+  /**
+   * Turn short scope quantities found by reconciliation into items
+   */
+  private fromDiscrepancies(discrepancies: Discrepancy[]): ProposedItem[] {
+    const items: ProposedItem[] = [];
+
+    for (const discrepancy of discrepancies) {
+      const template = DISCREPANCY_ITEMS[discrepancy.field];
+      if (!template || !discrepancy.difference || discrepancy.difference <= 0) continue;
+
+      items.push({
+        code: discrepancy.field,
+        description: template.description,
+        quantity: discrepancy.difference,
+        unit: discrepancy.unit,
+        unitPrice: Number(discrepancy.unitPrice),
+        justification: `${discrepancy.description}. ${template.justification}`,
+        source: "reconciliation",
+        discrepancyId: discrepancy.id,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Items required by code or manufacturer instructions, sized from the aerial report
+   */
+  private codeItems(input: SupplementInput, scopeLines: LineItem[]): ProposedItem[] {
+    const { aerial, job, options } = input;
+    if (!aerial) return [];
+
+    const items: ProposedItem[] = [];
+    const eave = aerial.eaveLength || 0;
+    const rake = aerial.rakeLength || 0;
+    const valley = aerial.valleyLength || 0;
+    const squares = (aerial.totalArea || 0) / 100;
+
+    // Drip edge at eaves and rakes
+    if (eave + rake > 0) {
+      const scoped = scopedQuantity(scopeLines, /drip\s*edge/i, "LF");
+      items.push({
+        code: "drip_edge",
+        description: "Drip edge",
+        quantity: eave + rake - scoped,
+        unit: "LF",
+        unitPrice: findUnitPrice(scopeLines, /drip\s*edge/i, "LF", DEFAULT_PRICES.dripEdge).unitPrice,
+        justification: `Aerial report measures ${round2(eave)} LF of eaves and ${round2(rake)} LF of rakes; scope includes ${scoped} LF of drip edge. IRC R905.2.8.5 requires drip edge at eaves and rake edges of shingle roofs.`,
+        source: "code",
+      });
+    }
+
+    // Starter course at eaves and rakes
+    if (eave + rake > 0) {
+      const scoped = scopedQuantity(scopeLines, /starter/i, "LF");
+      items.push({
+        code: "starter",
+        description: "Asphalt starter - universal starter course",
+        quantity: eave + rake - scoped,
+        unit: "LF",
+        unitPrice: findUnitPrice(scopeLines, /starter/i, "LF", DEFAULT_PRICES.starter).unitPrice,
+        justification: `Scope includes ${scoped} LF of starter for ${round2(eave + rake)} LF of eaves and rakes. Shingle manufacturers require a starter course at eaves and rakes, and IRC R905.2.6 requires installation per the manufacturer's instructions.`,
+        source: "code",
+      });
+    }
+
+    // Ice barrier where local code requires it
+    if (ICE_BARRIER_STATES.has(job.state.toUpperCase()) && eave > 0) {
+      const required = eave * ICE_BARRIER_SF_PER_EAVE_LF + valley * ICE_BARRIER_SF_PER_VALLEY_LF;
+      const pattern = /ice\s*(?:&|and)?\s*water|ice\s*barrier/i;
+      const scoped =
+        scopedQuantity(scopeLines, pattern, "SF") + scopedQuantity(scopeLines, pattern, "SQ") * 100;
+      items.push({
+        code: "ice_water",
+        description: "Ice & water barrier",
+        quantity: required - scoped,
+        unit: "SF",
+        unitPrice: findUnitPrice(scopeLines, pattern, "SF", DEFAULT_PRICES.iceWater).unitPrice,
+        justification: `IRC R905.1.2 requires an ice barrier from the eaves to at least 24" inside the exterior wall in areas with a history of ice damming (${job.state}). ${round2(eave)} LF of eaves and ${round2(valley)} LF of valleys need ${Math.ceil(required)} SF; scope includes ${scoped} SF.`,
+        source: "code",
+      });
+    }
+
+    // Steep roof charges by pitch band
+    const slopes = Array.isArray(aerial.slopes)
+      ? (aerial.slopes as { pitch: string; area: number }[])
+      : [];
+    const steepLines = scopeLines.filter((item) => /steep/i.test(item.description));
+
+    for (const band of STEEP_BANDS) {
+      const bandSquares =
+        slopes
+          .filter((slope) => {
+            const rise = parsePitch(slope.pitch);
+            return rise !== null && rise >= band.min && rise <= band.max;
+          })
+          .reduce((sum, slope) => sum + (slope.area || 0), 0) / 100;
+      if (bandSquares <= 0) continue;
+
+      // Steep lines that don't name a band count toward the lowest one
+      const scoped = steepLines
+        .filter((item) =>
+          band.pattern.test(item.description) ||
+          (band.code === "steep_7_9" && !STEEP_BANDS.some((b) => b.pattern.test(item.description)))
+        )
+        .reduce((sum, item) => sum + Number(item.quantity), 0);
+
+      items.push({
+        code: band.code,
+        description: `Additional charge for steep roof - ${band.label} slope`,
+        quantity: bandSquares - scoped,
+        unit: "SQ",
+        unitPrice: findUnitPrice(steepLines, band.pattern, "SQ", band.price).unitPrice,
+        justification: `Aerial report shows ${round2(bandSquares)} SQ at ${band.label} pitch; scope includes ${round2(scoped)} SQ of steep charges for this slope. Steep slopes require additional labor and safety equipment.`,
+        source: "code",
+      });
+    }
+
+    // High roof charges for two stories or more
+    if ((options.stories || 1) >= 2 && squares > 0) {
+      const pattern = /high\s*roof|2\s*stor(?:y|ies)/i;
+      const scoped = scopedQuantity(scopeLines, pattern, "SQ");
+      items.push({
+        code: "high_roof",
+        description: "Additional charge for high roof (2 stories or greater)",
+        quantity: squares - scoped,
+        unit: "SQ",
+        unitPrice: findUnitPrice(scopeLines, pattern, "SQ", DEFAULT_PRICES.highRoof).unitPrice,
+        justification: `The roof is ${options.stories} stories to the eave; scope includes ${round2(scoped)} SQ of high roof charges for ${round2(squares)} SQ of roof. Roofs two stories or higher require additional setup, fall protection and material handling.`,
+        source: "code",
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Price items at scope rates plus the scope's O&P rate, with a running RCV
+   */
+  private priceItems(
+    items: ProposedItem[],
+    lineItems: LineItem[],
+    originalRCV: number
+  ): SupplementItem[] {
+    const overheadRate = getOverheadProfitRate(lineItems);
+    let runningRCV = originalRCV;
+
+    return items.map((item) => {
+      const base = item.quantity * item.unitPrice;
+      const overheadProfit = round2(base * overheadRate);
+      const rcv = round2(base + overheadProfit);
+      runningRCV = round2(runningRCV + rcv);
+
+      return { ...item, overheadProfit, rcv, runningRCV };
+    });
+  }
+}
+
+/**
+ * Quantities already claimed per item code on earlier, non-denied supplements
+ */
+function claimedQuantities(supplements: Supplement[]): Map<string, number> {
+  const claimed = new Map<string, number>();
+
+  for (const supplement of supplements) {
+    if (supplement.status === "denied") continue;
+    for (const item of supplement.items as unknown as SupplementItem[]) {
+      claimed.set(item.code, (claimed.get(item.code) || 0) + item.quantity);
+    }
+  }
+
+  return claimed;
+}
+
+function scopedQuantity(lines: LineItem[], pattern: RegExp, unit: string): number {
+  return round2(
+    lines
+      .filter((item) => pattern.test(item.description) && item.unit.toUpperCase() === unit)
+      .reduce((sum, item) => sum + Number(item.quantity), 0)
+  );
+}
+
+/**
+ * O&P as a fraction of line cost, as the carrier applied it on the scope
+ */
+function getOverheadProfitRate(lineItems: LineItem[]): number {
+  let base = 0;
+  let overheadProfit = 0;
+
+  for (const item of lineItems) {
+    if (!item.unitPrice || item.overheadProfit === null) continue;
+    base += Number(item.quantity) * Number(item.unitPrice);
+    overheadProfit += Number(item.overheadProfit);
+  }
+
+  return base > 0 ? overheadProfit / base : 0;
+}
+
+function roundQuantity(quantity: number, unit: string): number {
+  // Nudge down first so float noise like 12.000000001 doesn't round up
+  return unit === "SQ" ? Math.ceil(quantity * 100 - 1e-6) / 100 : Math.ceil(quantity - 1e-6);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Export singleton instance
+export const supplementBuilder = new SupplementBuilder();
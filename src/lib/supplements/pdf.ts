@@ -0,0 +1,89 @@
+/**
+ * Supplement PDF
+ *
+ * Renders a supplement for submission to the carrier: claim header, the
+ * requested items with their justification, and the RCV summary.
+ */
+
+import { PdfWriter } from "@/lib/pdf/writer";
+import { writeLetterhead, type Branding } from "@/lib/pdf/branding";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import type { Job } from "@prisma/client";
+import type { SupplementItem } from "./builder";
+
+/**
+ * Render a supplement as a PDF. Takes the supplement's header and totals
+ * rather than its row, since the PDF is rendered before the row is saved.
+ */
+export async function renderSupplementPdf(data: {
+  branding: Branding;
+  job: Job;
+  supplement: {
+    supplementNumber: number;
+    createdAt: Date;
+    originalRCV: number;
+    rcvDelta: number;
+    revisedRCV: number;
+  };
+  items: SupplementItem[];
+}): Promise<Uint8Array> {
+  const { branding, job, supplement, items } = data;
+
+  const writer = await PdfWriter.create({
+    title: `Supplement ${supplement.supplementNumber} - ${job.jobNumber}`,
+    footer: `${branding.name} • Supplement ${supplement.supplementNumber} • Job ${job.jobNumber}`,
+  });
+
+  await writeLetterhead(writer, branding);
+  writer.heading(`Supplement Request #${supplement.supplementNumber}`, 18, branding.color);
+  writer.spacer(6);
+
+  writer.keyValues([
+    ["Insured", job.customerName],
+    ["Property", `${job.streetAddress}, ${job.city}, ${job.state} ${job.zipCode}`],
+    ["Carrier", job.insuranceCompany || "—"],
+    ["Claim Number", job.claimNumber || "—"],
+    ["Policy Number", job.policyNumber || "—"],
+    ["Date of Loss", job.dateOfLoss ? formatDate(job.dateOfLoss) : "—"],
+    ["Date", formatDate(supplement.createdAt)],
+  ]);
+
+  writer.spacer(8);
+  writer.text(
+    "The following items were omitted or under-quantified in the original scope. Each item is listed with the measurement or code requirement that supports it."
+  );
+  writer.spacer(8);
+
+  writer.table(
+    [
+      { header: "#", width: 0.05 },
+      { header: "Description / Justification", width: 0.47 },
+      { header: "Qty", width: 0.1, align: "right" },
+      { header: "Unit Price", width: 0.12, align: "right" },
+      { header: "RCV", width: 0.12, align: "right" },
+      { header: "Running RCV", width: 0.14, align: "right" },
+    ],
+    items.map((item, index) => [
+      String(index + 1),
+      `${item.description}\n${item.justification}`,
+      `${item.quantity} ${item.unit}`,
+      formatCurrency(item.unitPrice),
+      formatCurrency(item.rcv),
+      formatCurrency(item.runningRCV),
+    ])
+  );
+
+  const overheadProfit = items.reduce((sum, item) => sum + item.overheadProfit, 0);
+
+  writer.spacer(12);
+  writer.keyValues([
+    ["Original RCV", formatCurrency(supplement.originalRCV)],
+    ...(overheadProfit > 0
+      ? [["Includes O&P", formatCurrency(overheadProfit)] as [string, string]]
+      : []),
+    ["Supplement RCV", formatCurrency(supplement.rcvDelta)],
+    ["Revised RCV", formatCurrency(supplement.revisedRCV)],
+  ]);
+
+  return writer.save();
+}
@@ -0,0 +1,131 @@
+/**
+ * Material Takeoff
+ *
+ * Builds a material list from a stored aerial report and saves it as line
+ * items (source "aerial"), so a job can be priced and quoted before the
+ * insurance scope arrives.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { PricingCalculator } from "@/lib/pricing/calculator";
+import { getMinimumPipeJacks } from "@/lib/agentcore/tools/pipe-jack-extractor";
+import { getWasteFactor, ICE_BARRIER_STATES, normalizeStructures, parsePitch } from "@/lib/roofing/roof";
+import type { AerialReport, LineItem } from "@prisma/client";
+
+export interface TakeoffItem {
+  key: string;
+  subcategory: string;
+  description: string;
+  quantity: number;
+  unit: string;
+}
+
+// How each calculated quantity is described and categorized
+const TAKEOFF_ITEMS: Record<string, { subcategory: string; description: string }> = {
+  shingles: { subcategory: "shingles", description: "Laminated composition shingles" },
+  underlayment: { subcategory: "underlayment", description: "Synthetic underlayment" },
+  starter: { subcategory: "starter", description: "Starter strip shingles - eaves and rakes" },
+  ridgeCap: { subcategory: "hip_ridge", description: "Ridge cap shingles" },
+  hipCap: { subcategory: "hip_ridge", description: "Hip cap shingles" },
+  dripEdge: { subcategory: "drip_edge", description: "Drip edge" },
+  iceWater: { subcategory: "ice_water", description: "Ice & water shield" },
+  valleyMetal: { subcategory: "flashing", description: "Valley metal flashing" },
+  stepFlashing: { subcategory: "flashing", description: "Step flashing" },
+  headwallFlashing: { subcategory: "flashing", description: "Headwall flashing" },
+  pipeJacks: { subcategory: "pipe_jack", description: "Pipe jack flashing" },
+  lowSlopeRoofing: { subcategory: "low_slope", description: "Modified bitumen low slope roofing" },
+  nails: { subcategory: "nails", description: "Coil roofing nails" },
+};
+
+const pricingCalculator = new PricingCalculator();
+
+export class MaterialTakeoff {
+  /**
+   * Generate the takeoff for an aerial report and store it as the job's
+   * aerial line items, replacing any previous takeoff
+   */
+  async generateForReport(aerialReportId: string): Promise<LineItem[]> {
+    const aerial = await prisma.aerialReport.findUnique({
+      where: { id: aerialReportId },
+      include: { job: { select: { state: true } } },
+    });
+
+    if (!aerial) {
+      throw new Error("Aerial report not found");
+    }
+
+    const items = this.calculate(aerial, aerial.job.state);
+
+    return prisma.$transaction(async (tx) => {
+      await tx.lineItem.deleteMany({ where: { jobId: aerial.jobId, source: "aerial" } });
+
+      await tx.lineItem.createMany({
+        data: items.map((item) => ({
+          jobId: aerial.jobId,
+          documentId: aerial.documentId,
+          source: "aerial",
+          category: "roof",
+          subcategory: item.subcategory,
+          description: item.description,
+          quantity: item.quantity,
+          unit: item.unit,
+        })),
+      });
+
+      return tx.lineItem.findMany({
+        where: { jobId: aerial.jobId, source: "aerial" },
+        orderBy: { createdAt: "asc" },
+      });
+    });
+  }
+
+  /**
+   * Material list for an aerial report
+   */
+  calculate(aerial: AerialReport, state?: string): TakeoffItem[] {
+    const slopes = Array.isArray(aerial.slopes)
+      ? (aerial.slopes as { pitch: string; area: number }[])
+      : [];
+
+    // Slope areas by pitch: under 2:12 can't be shingled, 2-4:12 needs double underlayment
+    let flatArea = 0;
+    let lowSlopeArea = 0;
+    for (const slope of slopes) {
+      const rise = parsePitch(slope.pitch);
+      if (rise === null) continue;
+      if (rise < 2) flatArea += slope.area || 0;
+      else if (rise < 4) lowSlopeArea += slope.area || 0;
+    }
+
+    const structures = normalizeStructures(aerial.structures);
+    const hasWasteInfo = aerial.wasteFactorSuggested !== null || aerial.roofComplexity !== null;
+
+    const quantities = pricingCalculator.calculateMaterialQuantities({
+      totalArea: aerial.totalArea || 0,
+      ridge: aerial.ridgeLength || 0,
+      hip: aerial.hipLength || 0,
+      valley: aerial.valleyLength || 0,
+      eave: aerial.eaveLength || 0,
+      rake: aerial.rakeLength || 0,
+      stepFlashing: aerial.stepFlashing || 0,
+      headwall: aerial.headwall || 0,
+      lowSlopeArea,
+      flatArea,
+      pitch: (aerial.predominantPitch && parsePitch(aerial.predominantPitch)) || undefined,
+      penetrations: getMinimumPipeJacks(Math.max(1, structures.length)),
+      iceBarrierAtEaves: state ? ICE_BARRIER_STATES.has(state.toUpperCase()) : false,
+      wastePercent: hasWasteInfo ? getWasteFactor(aerial) : undefined,
+    });
+
+    return Object.entries(quantities).map(([key, { quantity, unit }]) => ({
+      key,
+      subcategory: TAKEOFF_ITEMS[key]?.subcategory || key,
+      description: TAKEOFF_ITEMS[key]?.description || key,
+      quantity,
+      unit,
+    }));
+  }
+}
+
+// Export singleton instance
+export const materialTakeoff = new MaterialTakeoff();
@@ -0,0 +1,266 @@
+/**
+ * Team Invitations
+ *
+ * Brings coworkers into an existing organization. An invitation is a
+ * VerificationToken for the invitee's email that also carries the
+ * organization and role; the link holds the raw token and only its hash is
+ * stored. Accepting creates the user in the inviting organization. Seats are
+ * capped by the plan's maxUsers, counting active users and pending
+ * invitations alike.
+ */
+
+import crypto from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { Prisma, User } from "@prisma/client";
+import type { Role } from "@/lib/permissions";
+
+export interface Invitation {
+  email: string;
+  organizationId: string;
+  organizationName: string;
+  role: Role;
+  expires: Date;
+  invitedBy: { name: string | null; email: string } | null;
+}
+
+export interface SeatUsage {
+  used: number; // Active users plus pending invitations
+  limit: number | null; // Null when the plan is unlimited
+}
+
+export interface NewMember {
+  email: string;
+  name?: string | null;
+  image?: string | null;
+  passwordHash?: string | null;
+  cognitoId?: string | null;
+}
+
+type PrismaTx = Prisma.TransactionClient;
+
+// How long an invitation link works
+const INVITATION_TTL_DAYS = 7;
+
+export class TeamInvitations {
+  /**
+   * Invite an email address into an organization, replacing any earlier
+   * invitation for it. Returns the raw token for the invitation link.
+   */
+  async invite(params: {
+    organizationId: string;
+    email: string;
+    role: Role;
+    invitedById: string | null;
+  }): Promise<{ token: string; expires: Date }> {
+    const email = normalizeEmail(params.email);
+
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: "insensitive" } },
+    });
+    if (existingUser) {
+      throw new Error(
+        existingUser.organizationId === params.organizationId
+          ? "That person is already on your team"
+          : "That email already has an account with another company"
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString("base64url");
+    const expires = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.verificationToken.deleteMany({
+        where: { identifier: email, organizationId: params.organizationId },
+      });
+
+      await assertSeatAvailable(params.organizationId, tx);
+
+      await tx.verificationToken.create({
+        data: {
+          identifier: email,
+          token: hashToken(token),
+          expires,
+          organizationId: params.organizationId,
+          role: params.role,
+          invitedById: params.invitedById,
+        },
+      });
+    });
+
+    return { token, expires };
+  }
+
+  /**
+   * The invitation behind a link, or null if it expired or was used
+   */
+  async find(token: string): Promise<Invitation | null> {
+    const invitation = await prisma.verificationToken.findFirst({
+      where: { token: hashToken(token), organizationId: { not: null }, expires: { gt: new Date() } },
+      include: {
+        organization: { select: { name: true } },
+        invitedBy: { select: { name: true, email: true } },
+      },
+    });
+
+    if (!invitation?.organization) {
+      return null;
+    }
+
+    return {
+      email: invitation.identifier,
+      organizationId: invitation.organizationId!,
+      organizationName: invitation.organization.name,
+      role: invitation.role as Role,
+      expires: invitation.expires,
+      invitedBy: invitation.invitedBy,
+    };
+  }
+
+  /**
+   * Accept an invitation link, creating the user in the inviting organization
+   */
+  async accept(token: string, member: NewMember): Promise<User> {
+    const user = await this.acceptHashed(hashToken(token), member);
+
+    if (!user) {
+      throw new Error("This invitation has expired or was already used");
+    }
+
+    return user;
+  }
+
+  /**
+   * Accept the newest pending invitation for an email, for users who sign in
+   * with a provider instead of following the link. Null if there is none.
+   */
+  async acceptPending(member: NewMember): Promise<User | null> {
+    const invitation = await prisma.verificationToken.findFirst({
+      where: {
+        identifier: normalizeEmail(member.email),
+        organizationId: { not: null },
+        expires: { gt: new Date() },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return invitation ? this.acceptHashed(invitation.token, member) : null;
+  }
+
+  /**
+   * An organization's pending invitations, newest first
+   */
+  async list(organizationId: string) {
+    return prisma.verificationToken.findMany({
+      where: { organizationId, expires: { gt: new Date() } },
+      select: {
+        identifier: true,
+        role: true,
+        expires: true,
+        createdAt: true,
+        invitedBy: { select: { name: true, email: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  /**
+   * Withdraw a pending invitation. Returns whether there was one.
+   */
+  async revoke(organizationId: string, email: string): Promise<boolean> {
+    const { count } = await prisma.verificationToken.deleteMany({
+      where: { identifier: normalizeEmail(email), organizationId },
+    });
+
+    return count > 0;
+  }
+
+  private async acceptHashed(hashedToken: string, member: NewMember): Promise<User | null> {
+    const email = normalizeEmail(member.email);
+
+    return prisma.$transaction(async (tx) => {
+      const invitation = await tx.verificationToken.findFirst({
+        where: { token: hashedToken, organizationId: { not: null }, expires: { gt: new Date() } },
+      });
+
+      if (!invitation) {
+        return null;
+      }
+
+      if (invitation.identifier !== email) {
+        throw new Error("This invitation was sent to a different email address");
+      }
+
+      // Single use; fails if the link is accepted twice at once
+      const { count } = await tx.verificationToken.deleteMany({ where: { token: hashedToken } });
+      if (count === 0) {
+        return null;
+      }
+
+      // The invitation held a seat until now
+      await assertSeatAvailable(invitation.organizationId!, tx);
+
+      return tx.user.create({
+        data: {
+          email,
+          name: member.name,
+          image: member.image,
+          passwordHash: member.passwordHash,
+          cognitoId: member.cognitoId,
+          organizationId: invitation.organizationId!,
+          role: invitation.role || "member",
+          emailVerified: new Date(), // They received the invitation
+        },
+      });
+    });
+  }
+}
+
+/**
+ * Seats an organization is using against its plan's user limit
+ */
+export async function getSeatUsage(organizationId: string, tx: PrismaTx = prisma): Promise<SeatUsage> {
+  const [organization, users, invitations] = await Promise.all([
+    tx.organization.findUnique({
+      where: { id: organizationId },
+      include: { subscription: { include: { plan: true } } },
+    }),
+    tx.user.count({ where: { organizationId, deactivatedAt: null } }),
+    tx.verificationToken.count({ where: { organizationId, expires: { gt: new Date() } } }),
+  ]);
+
+  if (!organization) {
+    throw new Error("Organization not found");
+  }
+
+  // Organizations without a subscription get their tier's plan
+  const plan =
+    organization.subscription?.plan ??
+    (await tx.subscriptionPlan.findUnique({ where: { name: organization.subscriptionTier } }));
+
+  return {
+    used: users + invitations,
+    limit: plan && plan.maxUsers !== -1 ? plan.maxUsers : null,
+  };
+}
+
+/**
+ * Throw unless the organization has a seat free for one more user
+ */
+export async function assertSeatAvailable(organizationId: string, tx: PrismaTx = prisma): Promise<void> {
+  const { used, limit } = await getSeatUsage(organizationId, tx);
+
+  if (limit !== null && used >= limit) {
+    throw new Error(`Your plan includes ${limit} user${limit !== 1 ? "s" : ""}. Upgrade to add more.`);
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Export singleton instance
+export const teamInvitations = new TeamInvitations();
@@ -35,3 +35,13 @@ export function generateJobNumber(): string {
   const random = Math.random().toString(36).substring(2, 6).toUpperCase();
   return `JOB-${year}${month}-${random}`;
 }
+
+/**
+ * Quote a value for a CSV cell. Text a spreadsheet would run as a formula
+ * (starting with =, +, -, @ or a tab) is prefixed with ' so it shows as text;
+ * plain numbers like -12.50 are left alone.
+ */
+export function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(?:\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
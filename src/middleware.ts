@@ -1,10 +1,42 @@
+import NextAuth from "next-auth";
 import { NextResponse } from "next/server";
-import type { NextRequest } from "next/server";
+import { authConfig } from "@/auth.config";
+import { isDevAuthBypassEnabled } from "@/lib/dev-session";
 
-// Bypass all authentication for development
-export default function middleware(request: NextRequest) {
-  return NextResponse.next();
-}
+const { auth } = NextAuth(authConfig);
+
+// Pages anyone can see
+const PUBLIC_PAGES = ["/", "/login", "/register"];
+
+// Routes that authenticate themselves (NextAuth, invitation links, webhook signatures, worker secret)
+const PUBLIC_PREFIXES = ["/auth/", "/api/auth/", "/invite/", "/api/webhooks/", "/api/tasks/run"];
+
+/**
+ * Require a signed-in user everywhere except the public pages and routes
+ */
+export default auth((request) => {
+  const { pathname } = request.nextUrl;
+
+  if (
+    isDevAuthBypassEnabled() ||
+    PUBLIC_PAGES.includes(pathname) ||
+    PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  ) {
+    return NextResponse.next();
+  }
+
+  if (request.auth?.user) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const loginUrl = new URL("/login", request.nextUrl.origin);
+  loginUrl.searchParams.set("callbackUrl", `${pathname}${request.nextUrl.search}`);
+  return NextResponse.redirect(loginUrl);
+});
 
 export const config = {
   matcher: [